@@ -1,13 +1,58 @@
 import { storage } from './utils/storage'
-import type { RuleCondition, RuleAction, Workspace, Settings } from './types'
-
-// Tab tracking
+import {
+  chromeGroupIdOf,
+  findGroupInWorkspace,
+  groupFingerprintScore,
+  isLinkedGroup,
+  matchSavedGroups,
+  primaryGroup,
+  savedGroupId,
+  savedGroupWorkspaces,
+  switchWorkspace,
+  unlinkSavedGroup,
+  updateSavedGroup,
+  type OpenGroup
+} from './utils/workspaces'
+import { GROUP_COLORS, isGroupColor } from './utils/groupColors'
+import { describeRemovals } from './utils/undo'
+import { hasTimeCondition, matchesRule, sortRulesByPriority } from './utils/rules'
+import { duplicateOptionsFromSettings, isDuplicateAllowed, isIgnoredDuplicateUrl, normalizeDuplicateUrl, pickSurvivor } from './utils/duplicates'
+import { formatDayKey } from './utils/format'
+import type {
+  RemovalReason,
+  RemovedTab,
+  RuleAction,
+  RuleRunRequest,
+  RuleRunResult,
+  TabGroup,
+  TabInfo,
+  TabRule,
+  TabTags,
+  Workspace,
+  Settings
+} from './types'
+
+// Tab tracking. The worker is stopped whenever it is idle, so activity is
+// written to storage in batches and loaded back when the worker starts.
 const tabLastAccessed = new Map<number, number>()
 const tabTimeSpent = new Map<number, number>()
 let activeTabId: number | null = null
 let previousTabId: number | null = null
 let lastActiveTime = Date.now()
 
+// Time only counts while a browser window has focus and the user isn't idle
+// or locked. Domain time is collected here, per day, until the next activity write.
+let activeTabDomain = ''
+let windowFocused = true
+let idleState: chrome.idle.IdleState = 'active'
+const pendingDomainTime = new Map<string, Record<string, number>>()
+const IDLE_DETECTION_SECONDS = 60
+
+const ACTIVITY_WRITE_DELAY_MS = 5000
+let activityWriteTimer: NodeJS.Timeout | null = null
+// Anything reading tab activity waits for this first
+const activityLoaded = loadTabActivity().catch(console.error)
+
 // Initialize on install/update
 chrome.runtime.onInstalled.addListener(() => {
   console.log('Tab Flow extension installed')
@@ -28,6 +73,7 @@ initializeExtension().catch(console.error)
 async function initializeExtension() {
   await setupAlarms()
   await reconcileSavedGroups()
+  await reconcileTabTags()
   
   // Load previous tab ID from storage
   previousTabId = await storage.getPreviousTabId()
@@ -39,6 +85,113 @@ async function initializeExtension() {
   }
 }
 
+// Restore activity saved before the worker was last stopped. Events handled
+// since this worker started are newer, so they win over stored values.
+async function loadTabActivity() {
+  const [stored, tabs] = await Promise.all([storage.getTabActivity(), chrome.tabs.query({})])
+  const openTabIds = new Set(tabs.map(t => t.id))
+
+  if (stored) {
+    for (const [id, time] of Object.entries(stored.lastAccessed)) {
+      const tabId = Number(id)
+      if (openTabIds.has(tabId) && !tabLastAccessed.has(tabId)) tabLastAccessed.set(tabId, time)
+    }
+    for (const [id, time] of Object.entries(stored.timeSpent)) {
+      const tabId = Number(id)
+      if (openTabIds.has(tabId)) tabTimeSpent.set(tabId, (tabTimeSpent.get(tabId) || 0) + time)
+    }
+    if (activeTabId === null && stored.activeTabId !== null && openTabIds.has(stored.activeTabId)) {
+      activeTabId = stored.activeTabId
+      activeTabDomain = stored.activeDomain ?? ''
+      lastActiveTime = stored.activeSince
+      windowFocused = stored.windowFocused ?? true
+      idleState = stored.idleState ?? 'active'
+    }
+  }
+
+  tabs.forEach(lastAccessedOf)
+  scheduleActivityWrite()
+}
+
+function scheduleActivityWrite() {
+  if (activityWriteTimer) return
+  activityWriteTimer = setTimeout(() => {
+    // Checkpoint the current span so a long stay on one tab is written as it
+    // goes rather than only when the user switches away. The timer is still
+    // set here, so crediting doesn't schedule another write.
+    creditActiveTab()
+    activityWriteTimer = null
+    const domainTime = Object.fromEntries(pendingDomainTime)
+    pendingDomainTime.clear()
+    Promise.all([
+      storage.setTabActivity({
+        lastAccessed: Object.fromEntries(tabLastAccessed),
+        timeSpent: Object.fromEntries(tabTimeSpent),
+        activeTabId,
+        activeDomain: activeTabDomain,
+        activeSince: lastActiveTime,
+        windowFocused,
+        idleState
+      }),
+      storage.addDomainTime(domainTime)
+    ]).catch(console.error)
+  }, ACTIVITY_WRITE_DELAY_MS)
+}
+
+// Credit the active tab, and its domain, with the time since the last
+// checkpoint and start a new span. Nothing is credited while attention is
+// paused. `until` lets idle detection leave out the minute spent detecting it.
+function creditActiveTab(until = Date.now()) {
+  if (activeTabId !== null && windowFocused && idleState === 'active') {
+    const elapsed = Math.max(0, until - lastActiveTime)
+    tabTimeSpent.set(activeTabId, (tabTimeSpent.get(activeTabId) || 0) + elapsed)
+    if (activeTabDomain) creditDomainTime(activeTabDomain, lastActiveTime, until)
+    scheduleActivityWrite()
+  }
+  lastActiveTime = Date.now()
+}
+
+// Split a span of domain time at local midnight so each day gets its own share
+function creditDomainTime(domain: string, start: number, end: number) {
+  while (start < end) {
+    const midnight = new Date(start)
+    midnight.setHours(24, 0, 0, 0)
+    const spanEnd = Math.min(end, midnight.getTime())
+    const day = formatDayKey(start)
+    const totals = pendingDomainTime.get(day) || {}
+    totals[domain] = (totals[domain] || 0) + spanEnd - start
+    pendingDomainTime.set(day, totals)
+    start = spanEnd
+  }
+}
+
+async function getTabDomain(tabId: number): Promise<string> {
+  const tab = await chrome.tabs.get(tabId).catch(() => null)
+  return domainOf(tab?.url)
+}
+
+function domainOf(url?: string): string {
+  if (!url) return ''
+  try {
+    return new URL(url).hostname
+  } catch {
+    return ''
+  }
+}
+
+// When a tab was last activated. Tabs not seen before start from Chrome's own
+// record, or from now when Chrome doesn't have one.
+function lastAccessedOf(tab: chrome.tabs.Tab): number {
+  if (tab.id === undefined) return 0
+  let lastAccessed = tabLastAccessed.get(tab.id)
+  if (lastAccessed === undefined) {
+    lastAccessed = (tab as TabInfo).lastAccessed ?? Date.now()
+    tabLastAccessed.set(tab.id, lastAccessed)
+    scheduleActivityWrite()
+  }
+  return lastAccessed
+}
+
 // Reconcile saved groups with active Chrome groups
 async function reconcileSavedGroups() {
   const ensureRuleBlockStateForGroup = async (groupName: string, isOpen: boolean) => {
@@ -65,41 +218,29 @@ async function reconcileSavedGroups() {
   }
 
   try {
-    const [activeGroups, workspaces] = await Promise.all([
+    await relinkSavedGroups()
+
+    const [activeGroups, workspaces, tabTags] = await Promise.all([
       chrome.tabGroups.query({}),
-      storage.getWorkspaces()
+      storage.getWorkspaces(),
+      storage.getTabTags()
     ])
     
-    // Update saved workspaces that have matching active groups
-    for (const workspace of workspaces) {
+    // Update saved groups that have matching active groups
+    for (const workspace of savedGroupWorkspaces(workspaces)) {
+      const savedGroup = primaryGroup(workspace)
+      if (!savedGroup) continue
+
       // Find matching active group by exact Chrome group ID
-      let activeGroup = null
-      
-      if (workspace.groups.length > 0) {
-        const groupId = parseInt(workspace.groups[0].id.replace('g_', ''))
-        if (!isNaN(groupId)) {
-          activeGroup = activeGroups.find(g => g.id === groupId)
-        }
-      }
+      const activeGroup = activeGroups.find(g => g.id === chromeGroupIdOf(savedGroup))
       
       if (activeGroup) {
         // This saved group is now active, update it with current state
         const tabs = await chrome.tabs.query({ groupId: activeGroup.id })
         
         const updatedWorkspace: Workspace = {
-          ...workspace,
-          name: activeGroup.title, // Update name to match current group title
-          groups: [{
-            ...workspace.groups[0],
-            id: `g_${activeGroup.id}`,
-            name: activeGroup.title,
-            color: activeGroup.color,
-            collapsed: activeGroup.collapsed,
-            tabs: tabs.map(t => t.id!),
-            updatedAt: Date.now()
-          }],
-          tabs: tabs.map(t => ({ ...t })),
-          updatedAt: Date.now()
+          ...updateSavedGroup(workspace, savedGroup.id, activeGroup, tabs, tabTags),
+          name: activeGroup.title || 'Untitled Group' // Update name to match current group title
         }
         
         await storage.saveWorkspace(updatedWorkspace)
@@ -108,30 +249,6 @@ async function reconcileSavedGroups() {
           await ensureRuleBlockStateForGroup(activeGroup.title, true)
         }
         console.log(`Updated saved group "${workspace.name}" to "${activeGroup.title}" with active group ID ${activeGroup.id}`)
-      } else {
-        // No active group found by ID; if names match an active group, link and unblock
-        const byName = activeGroups.find(g => g.title && g.title === workspace.name)
-        if (byName) {
-          const tabs = await chrome.tabs.query({ groupId: byName.id })
-          const updatedWorkspace: Workspace = {
-            ...workspace,
-            name: byName.title,
-            groups: [{
-              ...workspace.groups[0],
-              id: `g_${byName.id}`,
-              name: byName.title!,
-              color: byName.color,
-              collapsed: byName.collapsed,
-              tabs: tabs.map(t => t.id!),
-              updatedAt: Date.now()
-            }],
-            tabs: tabs.map(t => ({ ...t })),
-            updatedAt: Date.now()
-          }
-        await storage.saveWorkspace(updatedWorkspace)
-        chrome.runtime.sendMessage({ action: 'workspacesUpdated' })
-          await ensureRuleBlockStateForGroup(byName.title!, true)
-        }
       }
     }
   } catch (error) {
@@ -139,6 +256,166 @@ async function reconcileSavedGroups() {
   }
 }
 
+async function queryOpenGroups(): Promise<OpenGroup[]> {
+  const [groups, tabs] = await Promise.all([chrome.tabGroups.query({}), chrome.tabs.query({})])
+  return groups.map(group => ({ group, tabs: tabs.filter(t => t.groupId === group.id) }))
+}
+
+// Chrome hands out group ids afresh after a browser restart, so a saved
+// group's link can point at nothing or at an unrelated group. Once per
+// browser session, links are kept only if their group still looks like the
+// saved one. Unlinked saved groups are then re-associated with unlinked open
+// groups by title, color and pages; ties are left for the user to settle.
+async function relinkSavedGroups() {
+  const [workspaces, openGroups, tabTags, linksChecked, prompts, declined] = await Promise.all([
+    storage.getWorkspaces(),
+    queryOpenGroups(),
+    storage.getTabTags(),
+    storage.getGroupLinksChecked(),
+    storage.getGroupMatchPrompts(),
+    storage.getDeclinedGroupMatches()
+  ])
+  const saved = new Map(savedGroupWorkspaces(workspaces).map(w => [w.id, w]))
+  const changed = new Set<string>()
+
+  if (!linksChecked) {
+    for (const workspace of saved.values()) {
+      const group = primaryGroup(workspace)
+      if (!group || !isLinkedGroup(group)) continue
+      const open = openGroups.find(o => o.group.id === chromeGroupIdOf(group))
+      if (open && groupFingerprintScore(workspace, open) > 0) continue
+      saved.set(workspace.id, unlinkSavedGroup(workspace))
+      changed.add(workspace.id)
+    }
+    await storage.setGroupLinksChecked()
+  }
+
+  const linkedIds = new Set([...saved.values()]
+    .map(primaryGroup)
+    .filter((g): g is TabGroup => !!g && isLinkedGroup(g))
+    .map(chromeGroupIdOf))
+  const unlinked = [...saved.values()].filter(w => {
+    const group = primaryGroup(w)
+    return group && !isLinkedGroup(group)
+  })
+  const { links, prompts: newPrompts } = matchSavedGroups(
+    unlinked,
+    openGroups.filter(o => !linkedIds.has(o.group.id) && o.tabs.length > 0),
+    declined
+  )
+
+  for (const { workspace, open } of links) {
+    saved.set(workspace.id, {
+      ...updateSavedGroup(workspace, primaryGroup(workspace)!.id, open.group, open.tabs, tabTags),
+      name: open.group.title || 'Untitled Group'
+    })
+    changed.add(workspace.id)
+    console.log(`Re-linked saved group "${workspace.name}" to group ${open.group.id}`)
+  }
+
+  for (const id of changed) {
+    await storage.saveWorkspace(saved.get(id)!)
+  }
+
+  // Fresh prompts replace older ones for the same saved group; older ones
+  // go once their saved group is linked or their groups have closed
+  const settled = new Set([...newPrompts.map(p => p.workspaceId), ...links.map(l => l.workspace.id)])
+  const openIds = new Set(openGroups.map(o => o.group.id))
+  const stillUnlinked = new Set(unlinked.map(w => w.id))
+  const nextPrompts = [
+    ...prompts
+      .filter(p => !settled.has(p.workspaceId) && stillUnlinked.has(p.workspaceId))
+      .map(p => ({ ...p, candidates: p.candidates.filter(c => openIds.has(c.groupId)) }))
+      .filter(p => p.candidates.length > 0),
+    ...newPrompts
+  ]
+  if (JSON.stringify(nextPrompts) !== JSON.stringify(prompts)) {
+    await storage.setGroupMatchPrompts(nextPrompts)
+  }
+
+  if (changed.size > 0 || newPrompts.length > 0) {
+    chrome.runtime.sendMessage({ action: 'workspacesUpdated' }).catch(() => {})
+  }
+}
+
+// Workspaces are switched here rather than in the popup, which closes as
+// soon as a new window takes focus
+async function switchToWorkspace(workspaceId: string, windowId: number) {
+  const [workspaces, settings] = await Promise.all([storage.getWorkspaces(), getCachedSettings()])
+  const workspace = workspaces.find(w => w.id === workspaceId)
+  if (!workspace) return
+
+  await switchWorkspace(workspace, windowId, settings.workspaceSwitchMode)
+  chrome.runtime.sendMessage({ action: 'workspacesUpdated' }).catch(() => {})
+}
+
+// The user picked which open group a saved group is, or none of them
+async function resolveGroupMatch(workspaceId: string, groupId: number | null) {
+  const prompts = await storage.getGroupMatchPrompts()
+  // Remember a "none of these" so the next group update doesn't ask again
+  const prompt = prompts.find(p => p.workspaceId === workspaceId)
+  if (groupId === null && prompt) {
+    await storage.declineGroupMatches(workspaceId, prompt.candidates.map(c => c.groupId))
+  }
+  const remaining = prompts
+    .filter(p => p.workspaceId !== workspaceId)
+    .map(p => ({ ...p, candidates: p.candidates.filter(c => c.groupId !== groupId) }))
+    .filter(p => p.candidates.length > 0)
+  await storage.setGroupMatchPrompts(remaining)
+
+  if (groupId !== null) {
+    const workspace = (await storage.getWorkspaces()).find(w => w.id === workspaceId)
+    const savedGroup = workspace && primaryGroup(workspace)
+    if (workspace && savedGroup) {
+      const [group, tabs, tabTags] = await Promise.all([
+        chrome.tabGroups.get(groupId),
+        chrome.tabs.query({ groupId }),
+        storage.getTabTags()
+      ])
+      await storage.saveWorkspace({
+        ...updateSavedGroup(workspace, savedGroup.id, group, tabs, tabTags),
+        name: group.title || 'Untitled Group'
+      })
+    }
+  }
+
+  chrome.runtime.sendMessage({ action: 'workspacesUpdated' }).catch(() => {})
+}
+
+// Re-attach stored tags to open tabs. Tab ids are reassigned when the browser
+// restarts, so entries whose tab is gone are matched to an untagged open tab
+// with the same URL, and dropped if there is none.
+async function reconcileTabTags() {
+  try {
+    const [tabs, stored] = await Promise.all([
+      chrome.tabs.query({}),
+      storage.getTabTags()
+    ])
+    const openIds = new Set(tabs.map(t => t.id))
+    const reconciled: TabTags = {}
+    const orphans: TabTags[number][] = []
+
+    for (const [id, entry] of Object.entries(stored)) {
+      if (openIds.has(Number(id))) {
+        reconciled[Number(id)] = entry
+      } else {
+        orphans.push(entry)
+      }
+    }
+
+    for (const entry of orphans) {
+      const match = tabs.find(t => t.id !== undefined && t.url === entry.url && !reconciled[t.id])
+      if (match?.id !== undefined) {
+        reconciled[match.id] = entry
+      }
+    }
+
+    await storage.setTabTags(reconciled)
+  } catch (error) {
+    console.error('Failed to reconcile tab tags:', error)
+  }
+}
+
 // Get cached settings or load from storage
 async function getCachedSettings(): Promise<Settings> {
   if (!cachedSettings) {
@@ -239,6 +516,9 @@ chrome.storage.onChanged.addListener(async (changes, namespace) => {
     cachedSettings = changes.settings.newValue
     await setupAlarms()
   }
+  if (namespace === 'sync' && changes.tabRules) {
+    await setupTimeRulesAlarm()
+  }
 })
 
 // Track group collapse timeouts
@@ -252,18 +532,21 @@ let windowFocusTimeout: NodeJS.Timeout | null = null
 
 // Track tab activity
 chrome.tabs.onActivated.addListener(async (activeInfo) => {
+  // The previously active tab may only be known from storage
+  await activityLoaded
+
   // Update time spent for previous tab
+  creditActiveTab()
   if (activeTabId !== null) {
-    const timeSpent = Date.now() - lastActiveTime
-    tabTimeSpent.set(activeTabId, (tabTimeSpent.get(activeTabId) || 0) + timeSpent)
     previousTabId = activeTabId
     // Persist previous tab ID to storage
     await storage.setPreviousTabId(activeTabId)
   }
 
   activeTabId = activeInfo.tabId
-  lastActiveTime = Date.now()
   tabLastAccessed.set(activeInfo.tabId, Date.now())
+  activeTabDomain = await getTabDomain(activeInfo.tabId)
+  scheduleActivityWrite()
   
   // Handle auto-collapse groups
   const settings = await getCachedSettings()
@@ -305,6 +588,33 @@ chrome.tabs.onDetached.addListener(async (tabId, detachInfo) => {
   }
 })
 
+// Pause time tracking while no browser window has focus. Switching windows
+// doesn't fire onActivated, so pick up the focused window's active tab here.
+chrome.windows.onFocusChanged.addListener(async (windowId) => {
+  await activityLoaded
+  creditActiveTab()
+  windowFocused = windowId !== chrome.windows.WINDOW_ID_NONE
+  if (windowFocused) {
+    const [tab] = await chrome.tabs.query({ active: true, windowId })
+    if (tab?.id !== undefined && tab.id !== activeTabId) {
+      activeTabId = tab.id
+      tabLastAccessed.set(tab.id, Date.now())
+      activeTabDomain = await getTabDomain(tab.id)
+    }
+  }
+  scheduleActivityWrite()
+})
+
+// Pause time tracking while the user is idle or the screen is locked. Idle is
+// only reported after the detection interval, so that stretch isn't counted.
+chrome.idle.setDetectionInterval(IDLE_DETECTION_SECONDS)
+chrome.idle.onStateChanged.addListener(async (state) => {
+  await activityLoaded
+  creditActiveTab(state === 'idle' ? Date.now() - IDLE_DETECTION_SECONDS * 1000 : Date.now())
+  idleState = state
+  scheduleActivityWrite()
+})
+
 // Handle window focus changes for auto-collapse (with debouncing)
 chrome.windows.onFocusChanged.addListener(async (windowId) => {
   if (windowId === chrome.windows.WINDOW_ID_NONE) return
@@ -328,13 +638,21 @@ chrome.windows.onFocusChanged.addListener(async (windowId) => {
   }, 100) // 100ms debounce
 })
 
+// Closed windows no longer show any workspace
+chrome.windows.onRemoved.addListener((windowId) => {
+  storage.removeWorkspaceWindowId(windowId).catch(console.error)
+})
+
 // Track new tabs
 chrome.tabs.onCreated.addListener(async (tab) => {
   if (tab.id) {
     tabLastAccessed.set(tab.id, Date.now())
+    scheduleActivityWrite()
+    const url = tab.pendingUrl || tab.url
+    if (url && restoringUrls.has(url)) restoredTabIds.add(tab.id)
     // Batch async operations for better performance
     await Promise.all([
-      applyRules(tab),
+      restoredTabIds.has(tab.id) ? undefined : applyRules(tab),
       updateDailyStats('opened'),
       enforceTabLimits()
     ])
@@ -343,10 +661,30 @@ chrome.tabs.onCreated.addListener(async (tab) => {
 
 // Track tab updates (only specific changes we care about)
 chrome.tabs.onUpdated.addListener(async (tabId, changeInfo, tab) => {
+  // Time before a navigation belongs to the domain being left
+  if (changeInfo.url && tabId === activeTabId) {
+    creditActiveTab()
+    activeTabDomain = domainOf(changeInfo.url)
+  }
+
+  // Keep the URL of tagged tabs current so tags can be re-attached after a restart
+  if (changeInfo.url) {
+    const tags = await storage.getTabTags()
+    if (tags[tabId]) {
+      await storage.setTabTags({ ...tags, [tabId]: { ...tags[tabId], url: changeInfo.url } })
+    }
+  }
+
   // Only process complete status to run rules and duplicate detection
   if (changeInfo.status === 'complete') {
-    await applyRules(tab)
-    await checkDuplicates(tab)
+    // Skip the load that a rule's own reload action started, and the first
+    // load of a tab put back by undo
+    const reloaded = reloadingTabs.delete(tabId)
+    const restored = restoredTabIds.delete(tabId)
+    if (!reloaded && !restored) {
+      await applyRules(tab)
+      await checkDuplicates(tab)
+    }
   }
   
   // Handle group changes for auto-collapse (only if active tab)
@@ -361,9 +699,18 @@ chrome.tabs.onUpdated.addListener(async (tabId, changeInfo, tab) => {
 
 // Track tab removal
 let debounceTabsRemovedTimer: NodeJS.Timeout | null = null
-chrome.tabs.onRemoved.addListener(async (tabId) => {
+chrome.tabs.onRemoved.addListener(async (tabId, removeInfo) => {
+  if (tabId === activeTabId) {
+    creditActiveTab()
+    activeTabId = null
+  }
   tabLastAccessed.delete(tabId)
   tabTimeSpent.delete(tabId)
+  scheduleActivityWrite()
+  // Tabs closed with their window may come back through session restore
+  if (!removeInfo.isWindowClosing) {
+    await storage.removeTabTags(tabId)
+  }
   await updateDailyStats('closed')
   // Debounce a reconciliation to catch group closures done directly in Chrome
   if (debounceTabsRemovedTimer) clearTimeout(debounceTabsRemovedTimer)
@@ -375,9 +722,10 @@ chrome.tabs.onRemoved.addListener(async (tabId) => {
       ])
       const activeGroupIds = new Set(activeGroups.map(g => g.id))
       // For any saved workspace whose chrome group id no longer exists, mark rules blocked
-      for (const ws of workspaces) {
-        if (ws.groups.length === 0) continue
-        const gid = parseInt(ws.groups[0].id.replace('g_', ''))
+      for (const ws of savedGroupWorkspaces(workspaces)) {
+        const savedGroup = primaryGroup(ws)
+        if (!savedGroup) continue
+        const gid = chromeGroupIdOf(savedGroup)
         if (!isNaN(gid) && !activeGroupIds.has(gid)) {
           // Group is not active -> treat as saved-and-closed; block rules targeting its name
           const rules = await storage.getTabRules()
@@ -402,38 +750,20 @@ chrome.tabGroups.onUpdated.addListener(async (group) => {
   const tabs = await chrome.tabs.query({ groupId: group.id })
   const workspaces = await storage.getWorkspaces()
   
-  // Find workspace by Chrome group ID (exact match)
-  let existingWorkspace = null
-  let workspaceIndex = -1
+  // Find the saved group by Chrome group ID (exact match)
+  const existingWorkspace = savedGroupWorkspaces(workspaces).find(w => findGroupInWorkspace(w, group.id))
   
-  for (let i = 0; i < workspaces.length; i++) {
-    const workspace = workspaces[i]
-    // Look for exact Chrome group ID match
-    const matchingGroup = workspace.groups.find(g => g.id === `g_${group.id}`)
-    
-    if (matchingGroup) {
-      existingWorkspace = workspace
-      workspaceIndex = i
-      break
-    }
+  if (!existingWorkspace && tabs.length > 0) {
+    // Groups Chrome restores after a restart may show up after startup
+    await relinkSavedGroups()
   }
-  
+
   if (existingWorkspace && tabs.length > 0) {
     // Update the existing workspace with new name and data
+    const tabTags = await storage.getTabTags()
     const updatedWorkspace: Workspace = {
-      ...existingWorkspace,
-      name: group.title || 'Untitled Group',
-      groups: [{
-        ...existingWorkspace.groups[0],
-        id: `g_${group.id}`,
-        name: group.title || 'Untitled Group',
-        color: group.color,
-        collapsed: group.collapsed,
-        tabs: tabs.map(t => t.id!),
-        updatedAt: Date.now()
-      }],
-      tabs: tabs.map(t => ({ ...t })),
-      updatedAt: Date.now()
+      ...updateSavedGroup(existingWorkspace, savedGroupId(group.id), group, tabs, tabTags),
+      name: group.title || 'Untitled Group'
     }
     
     await storage.saveWorkspace(updatedWorkspace)
@@ -515,6 +845,23 @@ async function setupAlarms() {
     chrome.alarms.create('memorySaver', { periodInMinutes: 10 })
     console.log('Created memory saver alarm (every 10 minutes)')
   }
+
+  await setupTimeRulesAlarm()
+  await scheduleNextTabClose()
+}
+
+// Time rules alarm - only runs while an enabled rule has a time condition
+async function setupTimeRulesAlarm() {
+  const rules = await storage.getTabRules()
+  const needsAlarm = rules.some(r => r.enabled && !r.blockedReason && hasTimeCondition(r))
+  const existing = await chrome.alarms.get('timeRules')
+
+  if (needsAlarm && !existing) {
+    chrome.alarms.create('timeRules', { periodInMinutes: 1 })
+    console.log('Created time rules alarm (every minute)')
+  } else if (!needsAlarm && existing) {
+    await chrome.alarms.clear('timeRules')
+  }
 }
 
 // Handle alarms
@@ -529,6 +876,12 @@ chrome.alarms.onAlarm.addListener(async (alarm) => {
     case 'memorySaver':
       await suspendMemoryHeavyTabs()
       break
+    case 'timeRules':
+      await evaluateTimeRules()
+      break
+    case 'scheduledCloses':
+      await closeScheduledTabs()
+      break
   }
 })
 
@@ -536,166 +889,566 @@ chrome.alarms.onAlarm.addListener(async (alarm) => {
 async function autoArchiveInactiveTabs() {
   const settings = await getCachedSettings()
   if (!settings.autoArchiveEnabled) return
+  await activityLoaded
 
   const tabs = await chrome.tabs.query({})
   const now = Date.now()
   const archiveThreshold = settings.autoArchiveMinutes * 60 * 1000
+  const undo: UndoTarget = { batchId: newUndoBatchId(), reason: 'auto_archive' }
+  let archivedCount = 0
 
   for (const tab of tabs) {
     if (!tab.id || tab.pinned || tab.active) continue
 
-    const lastAccessed = tabLastAccessed.get(tab.id) || 0
-    if (now - lastAccessed > archiveThreshold) {
+    if (now - lastAccessedOf(tab) > archiveThreshold) {
       // Archive the tab (save to storage and close)
-      await archiveTab(tab)
+      await archiveTab(tab, undo)
+      archivedCount++
     }
   }
+
+  if (archivedCount > 0) await notifyUndo(undo.batchId)
 }
 
 // Archive a tab
-async function archiveTab(tab: chrome.tabs.Tab) {
+async function archiveTab(tab: chrome.tabs.Tab, undo: UndoTarget) {
   if (!tab.id || !tab.url) return
 
-  const archivedTabs = await chrome.storage.local.get('archivedTabs')
+  const archivedAt = Date.now()
+  const [archivedTabs, removed] = await Promise.all([
+    chrome.storage.local.get('archivedTabs'),
+    snapshotTab(tab, undo, archivedAt)
+  ])
   const archived = archivedTabs.archivedTabs || []
 
   archived.push({
     url: tab.url,
     title: tab.title,
     favIconUrl: tab.favIconUrl,
-    archivedAt: Date.now(),
-    timeSpent: tabTimeSpent.get(tab.id) || 0
+    archivedAt,
+    timeSpent: tabTimeSpent.get(tab.id) || 0,
+    tags: removed?.tags
   })
 
   await chrome.storage.local.set({ archivedTabs: archived })
   await chrome.tabs.remove(tab.id)
+  if (removed) await storage.addToUndoJournal([removed])
 }
 
-// Apply rules to a tab
-async function applyRules(tab: chrome.tabs.Tab) {
-  const rules = await storage.getTabRules()
-  // Only apply rules that are enabled and not blocked
-  const enabledRules = rules.filter(r => r.enabled && !r.blockedReason)
+// Close a tab, keeping what's needed to undo it
+async function closeTab(tab: chrome.tabs.Tab, undo: UndoTarget) {
+  if (!tab.id) return
+  const removed = await snapshotTab(tab, undo)
+  await chrome.tabs.remove(tab.id)
+  if (removed) await storage.addToUndoJournal([removed])
+}
 
-  for (const rule of enabledRules) {
-    if (await matchesConditions(tab, rule.conditions, rule.conditionOperator)) {
-      await executeActions(tab, rule.actions)
-    }
+// Where undo journal entries go: tabs removed together share a batch
+interface UndoTarget {
+  batchId: string
+  reason: RemovalReason
+  ruleName?: string
+}
+
+function newUndoBatchId(): string {
+  return `undo_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`
+}
+
+// Record where a tab is and what it looks like before the extension removes it
+async function snapshotTab(tab: chrome.tabs.Tab, undo: UndoTarget, archivedAt?: number): Promise<RemovedTab | null> {
+  if (!tab.id || !tab.url) return null
+
+  // Earlier actions may have moved or grouped the tab since it was queried
+  const current = await chrome.tabs.get(tab.id).catch(() => tab)
+  const [group, tabTags] = await Promise.all([
+    current.groupId !== undefined && current.groupId !== chrome.tabGroups.TAB_GROUP_ID_NONE
+      ? chrome.tabGroups.get(current.groupId).catch(() => null)
+      : null,
+    storage.getTabTags()
+  ])
+
+  return {
+    ...undo,
+    url: tab.url,
+    title: tab.title,
+    windowId: current.windowId,
+    index: current.index,
+    pinned: current.pinned,
+    group: group ? { id: group.id, title: group.title, color: group.color } : undefined,
+    tags: tabTags[tab.id]?.tags,
+    archivedAt,
+    removedAt: Date.now()
   }
 }
 
-// Check if tab matches rule conditions
-async function matchesConditions(tab: chrome.tabs.Tab, conditions: RuleCondition[], operator?: 'AND' | 'OR'): Promise<boolean> {
-  // Default to AND for backward compatibility
-  const logicOperator = operator || 'AND'
-  
-  if (logicOperator === 'OR') {
-    // OR logic: at least one condition must match
-    for (const condition of conditions) {
-      let matches = false
-
-      switch (condition.type) {
-        case 'url':
-          matches = matchesPattern(tab.url || '', condition.operator, condition.value, condition.caseSensitive)
-          break
-        case 'title':
-          matches = matchesPattern(tab.title || '', condition.operator, condition.value, condition.caseSensitive)
-          break
-        case 'domain':
-          const domain = tab.url ? new URL(tab.url).hostname : ''
-          matches = matchesPattern(domain, condition.operator, condition.value, condition.caseSensitive)
-          break
+// Tabs being reopened by an undo. Rules and duplicate detection skip their
+// first load, otherwise the automation that removed them would do it again.
+const restoringUrls = new Set<string>()
+const restoredTabIds = new Set<number>()
+
+// Put back the tabs of an undo batch, the most recent one when omitted.
+// Returns how many tabs were restored.
+async function undoRemoval(batchId?: string): Promise<number> {
+  const entries = await storage.takeUndoBatch(batchId)
+  // Reopen left to right so the original indexes line up again
+  entries.sort((a, b) => a.windowId - b.windowId || a.index - b.index)
+
+  const windowIds = new Map<number, number>()
+  const groupIds = new Map<number, number>()
+  let restored = 0
+
+  for (const entry of entries) {
+    restoringUrls.add(entry.url)
+    try {
+      const tab = await reopenTab(entry, windowIds)
+      if (!tab?.id) continue
+      restoredTabIds.add(tab.id)
+      if (entry.group && !entry.pinned) {
+        await regroupTab(tab, entry.group, groupIds)
       }
+      for (const tag of entry.tags || []) {
+        await storage.addTabTag(tab.id, entry.url, tag)
+      }
+      restored++
+    } catch (e) {
+      console.error(`Failed to restore ${entry.url}:`, e)
+    } finally {
+      restoringUrls.delete(entry.url)
+    }
+  }
+
+  // Restored tabs shouldn't also stay in the archive
+  const unarchived = new Set(entries.filter(e => e.archivedAt).map(e => `${e.archivedAt}|${e.url}`))
+  if (unarchived.size > 0) {
+    const { archivedTabs = [] } = await chrome.storage.local.get('archivedTabs')
+    await chrome.storage.local.set({
+      archivedTabs: archivedTabs.filter((t: any) => !unarchived.has(`${t.archivedAt}|${t.url}`))
+    })
+  }
 
-      if (matches) return true // Return true on first match for OR
+  chrome.runtime.sendMessage({ action: 'undoJournalUpdated' }).catch(() => {})
+  return restored
+}
+
+// Reopen a removed tab in its window, or in a new window standing in for it
+// when the original has since closed
+async function reopenTab(entry: RemovedTab, windowIds: Map<number, number>): Promise<chrome.tabs.Tab | undefined> {
+  let windowId = windowIds.get(entry.windowId)
+  if (windowId === undefined) {
+    const window = await chrome.windows.get(entry.windowId).catch(() => null)
+    if (window?.id === undefined) {
+      const created = await chrome.windows.create({ url: entry.url, focused: false })
+      const tab = created?.tabs?.[0]
+      if (created?.id !== undefined) windowIds.set(entry.windowId, created.id)
+      if (entry.pinned && tab?.id) await chrome.tabs.update(tab.id, { pinned: true })
+      return tab
     }
-    return false // No conditions matched
+    windowId = window.id
+    windowIds.set(entry.windowId, windowId)
+  }
+
+  return chrome.tabs.create({ windowId, index: entry.index, url: entry.url, pinned: entry.pinned, active: false })
+}
+
+// Add a restored tab back to its group: the original if it is still open,
+// else a group with the same name in the window, else a recreated one
+async function regroupTab(tab: chrome.tabs.Tab, group: NonNullable<RemovedTab['group']>, groupIds: Map<number, number>) {
+  if (!tab.id) return
+  let groupId = groupIds.get(group.id)
+
+  if (groupId === undefined) {
+    const original = await chrome.tabGroups.get(group.id).catch(() => null)
+    const existing = original?.windowId === tab.windowId
+      ? original
+      : group.title
+        ? (await chrome.tabGroups.query({ windowId: tab.windowId, title: group.title }))[0]
+        : undefined
+    groupId = existing?.id
+  }
+
+  if (groupId !== undefined) {
+    await chrome.tabs.group({ groupId, tabIds: tab.id })
   } else {
-    // AND logic: all conditions must match
-    for (const condition of conditions) {
-      let matches = false
+    groupId = await chrome.tabs.group({ tabIds: tab.id, createProperties: { windowId: tab.windowId } })
+    await chrome.tabGroups.update(groupId, { title: group.title, color: group.color })
+  }
+  groupIds.set(group.id, groupId)
+}
 
-      switch (condition.type) {
-        case 'url':
-          matches = matchesPattern(tab.url || '', condition.operator, condition.value, condition.caseSensitive)
-          break
-        case 'title':
-          matches = matchesPattern(tab.title || '', condition.operator, condition.value, condition.caseSensitive)
-          break
-        case 'domain':
-          const domain = tab.url ? new URL(tab.url).hostname : ''
-          matches = matchesPattern(domain, condition.operator, condition.value, condition.caseSensitive)
+// Tell the popup about a new undo batch and offer Undo in the focused tab
+async function notifyUndo(batchId: string) {
+  chrome.runtime.sendMessage({ action: 'undoJournalUpdated' }).catch(() => {})
+
+  const entries = (await storage.getUndoJournal()).filter(e => e.batchId === batchId)
+  if (entries.length === 0) return
+  const [activeTab] = await chrome.tabs.query({ active: true, lastFocusedWindow: true })
+  if (activeTab?.id) {
+    await showToast(activeTab.id, describeRemovals(entries), batchId)
+  }
+}
+
+// Apply rules to a tab
+// Returns whether any rule matched and whether the tab was closed or archived
+// Removals join the given undo batch, or get their own when omitted.
+async function applyRules(
+  tab: chrome.tabs.Tab,
+  rules?: TabRule[],
+  undoBatchId?: string
+): Promise<{ matched: boolean; removed: boolean }> {
+  await activityLoaded
+  const candidates = rules || await storage.getTabRules()
+  // Only apply rules that are enabled and not blocked, in priority order
+  const enabledRules = sortRulesByPriority(candidates.filter(r => r.enabled && !r.blockedReason))
+  let matched = false
+
+  for (const rule of enabledRules) {
+    if (await matchesRule(tab, rule, { lastAccessed: getLastAccessed })) {
+      matched = true
+      const tabRemoved = await runRule(rule, tab, undoBatchId)
+      // Later rules have nothing left to act on
+      if (tabRemoved) return { matched, removed: true }
+      if (rule.stopProcessing) break
+    }
+  }
+
+  return { matched, removed: false }
+}
+
+// Run rules against tabs that are already open, in one window or all of them.
+// A dry run only matches the rules, so the popup can ask for confirmation
+// before anything gets closed or archived.
+async function runRulesOnDemand({ ruleIds, windowId, dryRun }: RuleRunRequest): Promise<RuleRunResult> {
+  const allRules = await storage.getTabRules()
+  const rules = ruleIds ? allRules.filter(r => ruleIds.includes(r.id)) : allRules
+  const tabs = await chrome.tabs.query(windowId === undefined ? {} : { windowId })
+  const result: RuleRunResult = { affectedTabs: 0, removedTabs: 0 }
+
+  if (dryRun) {
+    await activityLoaded
+    const enabledRules = sortRulesByPriority(rules.filter(r => r.enabled && !r.blockedReason))
+    const context = { openTabs: await chrome.tabs.query({}), lastAccessed: getLastAccessed }
+
+    for (const tab of tabs) {
+      let matched = false
+      for (const rule of enabledRules) {
+        if (!(await matchesRule(tab, rule, context))) continue
+        matched = true
+        if (rule.actions.some(removesTab)) {
+          result.removedTabs++
+          // A removed tab no longer counts as a duplicate of the tabs after it
+          context.openTabs = context.openTabs.filter(t => t.id !== tab.id)
           break
+        }
+        if (rule.stopProcessing) break
       }
-
-      if (!matches) return false // Return false on first non-match for AND
+      if (matched) result.affectedTabs++
     }
-    return true // All conditions matched
+    return result
+  }
+
+  // The whole run is undone in one go; the popup offers it
+  const undoBatchId = newUndoBatchId()
+  for (const tab of tabs) {
+    // Earlier tabs' rules may have closed this one
+    if (!tab.id || !(await chrome.tabs.get(tab.id).catch(() => null))) continue
+    const { matched, removed } = await applyRules(tab, rules, undoBatchId)
+    if (matched) result.affectedTabs++
+    if (removed) result.removedTabs++
+  }
+  if (result.removedTabs > 0) {
+    chrome.runtime.sendMessage({ action: 'undoJournalUpdated' }).catch(() => {})
+  }
+  return result
+}
+
+// Execute a matched rule's actions and record the outcome in the rule log.
+// Returns whether the tab was closed or archived. Without an undo batch to
+// join, a removal gets its own batch and an Undo toast.
+async function runRule(rule: TabRule, tab: chrome.tabs.Tab, undoBatchId?: string): Promise<boolean> {
+  const completed: RuleAction[] = []
+  const undo: UndoTarget = { batchId: undoBatchId || newUndoBatchId(), reason: 'rule', ruleName: rule.name }
+  let error: string | undefined
+
+  try {
+    await executeActions(tab, rule.actions, completed, undo)
+  } catch (e) {
+    error = e instanceof Error ? e.message : String(e)
+    console.error(`Rule "${rule.name}" failed on tab ${tab.id}:`, e)
   }
+
+  try {
+    await storage.recordRuleExecution({
+      id: `log_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+      ruleId: rule.id,
+      ruleName: rule.name,
+      tabUrl: tab.url,
+      tabTitle: tab.title,
+      actions: completed,
+      outcome: error ? 'error' : 'success',
+      error,
+      timestamp: Date.now()
+    })
+    chrome.runtime.sendMessage({ action: 'ruleLogUpdated' }).catch(() => {})
+  } catch (e) {
+    console.error('Failed to record rule execution:', e)
+  }
+
+  const removed = completed.some(removesTab)
+  if (removed && !undoBatchId) await notifyUndo(undo.batchId)
+  return removed
+}
+
+function getLastAccessed(tabId: number): number | undefined {
+  return tabLastAccessed.get(tabId)
 }
 
-// Pattern matching helper
-function matchesPattern(text: string, operator: string, pattern: string, caseSensitive?: boolean): boolean {
-  const compareText = caseSensitive ? text : text.toLowerCase()
-  const comparePattern = caseSensitive ? pattern : pattern.toLowerCase()
+// Re-run rules that have time conditions against every open tab. Idle time and
+// time-of-day windows change without any tab event firing, so these rules are
+// also evaluated from the 'timeRules' alarm.
+//
+// A rule fires once when its conditions start matching a tab, not on every
+// pass while they keep matching. The matching tab/rule pairs are kept in
+// session storage because the worker is routinely restarted between passes.
+async function evaluateTimeRules() {
+  const rules = await storage.getTabRules()
+  const timeRules = sortRulesByPriority(rules.filter(r => r.enabled && !r.blockedReason && hasTimeCondition(r)))
+  if (timeRules.length === 0) return
+  await activityLoaded
+
+  const [tabs, session] = await Promise.all([
+    chrome.tabs.query({}),
+    chrome.storage.session.get('timeRuleMatches')
+  ])
+  const previous = new Set<string>(session.timeRuleMatches || [])
+  const current = new Set<string>()
+  const undoBatchId = newUndoBatchId()
+  let removedAny = false
 
-  switch (operator) {
-    case 'contains':
-      return compareText.includes(comparePattern)
-    case 'equals':
-      return compareText === comparePattern
-    case 'matches':
-      return new RegExp(pattern, caseSensitive ? '' : 'i').test(text)
-    case 'starts_with':
-      return compareText.startsWith(comparePattern)
-    case 'ends_with':
-      return compareText.endsWith(comparePattern)
-    default:
-      return false
+  for (const tab of tabs) {
+    for (const rule of timeRules) {
+      const key = `${rule.id}:${tab.id}`
+      try {
+        if (!(await matchesRule(tab, rule, { lastAccessed: getLastAccessed }))) continue
+        current.add(key)
+        if (previous.has(key)) {
+          if (rule.stopProcessing) break
+          continue
+        }
+        const tabRemoved = await runRule(rule, tab, undoBatchId)
+        removedAny ||= tabRemoved
+        if (tabRemoved || rule.stopProcessing) break
+      } catch (error) {
+        console.error(`Failed to evaluate time rules for tab ${tab.id}:`, error)
+      }
+    }
   }
+
+  await chrome.storage.session.set({ timeRuleMatches: Array.from(current) })
+  if (removedAny) await notifyUndo(undoBatchId)
 }
 
-// Execute rule actions
-async function executeActions(tab: chrome.tabs.Tab, actions: RuleAction[]) {
+// Execute rule actions, collecting the ones that completed
+async function executeActions(
+  tab: chrome.tabs.Tab,
+  actions: RuleAction[],
+  completed: RuleAction[] = [],
+  undo: UndoTarget = { batchId: newUndoBatchId(), reason: 'rule' }
+) {
   if (!tab.id) return
 
-  for (const action of actions) {
+  // Closing or archiving goes last so the other actions still have a tab to
+  // work on, and nothing runs against the tab once it's gone. A delayed close
+  // is moot when the tab is removed now.
+  const removing = actions.filter(removesTab)
+  const ordered = [
+    ...actions.filter(a => !removesTab(a) && !(removing.length > 0 && a.type === 'close_after')),
+    ...removing.slice(0, 1)
+  ]
+
+  for (const action of ordered) {
     switch (action.type) {
       case 'group':
-        await addToGroup(tab.id, action.value || 'Auto-grouped')
+        await addToGroup(tab.id, action.value || 'Auto-grouped', action.color)
         break
       case 'close':
-        await chrome.tabs.remove(tab.id)
+        await closeTab(tab, undo)
         break
       case 'archive':
-        await archiveTab(tab)
+        await archiveTab(tab, undo)
         break
       case 'pin':
         await chrome.tabs.update(tab.id, { pinned: true })
         break
+      case 'tag':
+        if (action.value && tab.url) {
+          await storage.addTabTag(tab.id, tab.url, action.value)
+        }
+        break
+      case 'suspend': {
+        // Active tabs can't be discarded
+        const settings = await getCachedSettings()
+        if (!tab.active && !isExcludedFromMemorySaver(tab, settings)) {
+          await suspendTab(tab)
+        }
+        break
+      }
+      case 'move_to_window':
+        await moveToNamedWindow(tab.id, action.value?.trim() || '')
+        break
+      case 'mute':
+      case 'unmute':
+        await chrome.tabs.update(tab.id, { muted: action.type === 'mute' })
+        break
+      case 'collapse_group': {
+        const groupId = action.value?.trim()
+          ? (await chrome.tabGroups.query({ title: action.value.trim() }))[0]?.id
+          : (await chrome.tabs.get(tab.id)).groupId
+        if (groupId !== undefined && groupId !== chrome.tabGroups.TAB_GROUP_ID_NONE) {
+          await chrome.tabGroups.update(groupId, { collapsed: true })
+        }
+        break
+      }
+      case 'group_color': {
+        // Applies to the group the tab is in now, e.g. after a group action
+        const { groupId } = await chrome.tabs.get(tab.id)
+        if (groupId !== chrome.tabGroups.TAB_GROUP_ID_NONE && isGroupColor(action.value)) {
+          const group = await chrome.tabGroups.update(groupId, { color: action.value })
+          await storage.setGroupColor(group?.title || '', action.value)
+        }
+        break
+      }
+      case 'reload':
+        reloadingTabs.add(tab.id)
+        await chrome.tabs.reload(tab.id)
+        break
+      case 'bookmark':
+        if (tab.url && action.value?.trim()) {
+          await bookmarkInFolder(tab, action.value.trim())
+        }
+        break
+      case 'close_after': {
+        const minutes = Number(action.value)
+        if (Number.isFinite(minutes) && minutes > 0) {
+          await scheduleTabClose(tab, minutes)
+        }
+        break
+      }
+    }
+    completed.push(action)
+  }
+}
+
+function removesTab(action: RuleAction): boolean {
+  return action.type === 'close' || action.type === 'archive'
+}
+
+// Tabs reloaded by a rule. Their next load is skipped by the rules so a
+// reload action can't trigger itself forever.
+const reloadingTabs = new Set<number>()
+
+// Move a tab into the window a rule named, opening it on first use. Names map
+// to window ids for the browser session; an empty name always opens a new window.
+async function moveToNamedWindow(tabId: number, name: string) {
+  const session = await chrome.storage.session.get('namedWindows')
+  const namedWindows: Record<string, number> = session.namedWindows || {}
+  const windowId = name ? namedWindows[name] : undefined
+  const window = windowId !== undefined ? await chrome.windows.get(windowId).catch(() => null) : null
+
+  if (window?.id !== undefined) {
+    await chrome.tabs.move(tabId, { windowId: window.id, index: -1 })
+    return
+  }
+
+  const created = await chrome.windows.create({ tabId, focused: false })
+  if (name && created?.id !== undefined) {
+    await chrome.storage.session.set({ namedWindows: { ...namedWindows, [name]: created.id } })
+  }
+}
+
+// Bookmark a tab into the folder with the given name, creating the folder
+// under Other Bookmarks if it doesn't exist
+async function bookmarkInFolder(tab: chrome.tabs.Tab, folderName: string) {
+  const matches = await chrome.bookmarks.search({ title: folderName })
+  const folder = matches.find(b => !b.url) || await chrome.bookmarks.create({ title: folderName })
+
+  const children = await chrome.bookmarks.getChildren(folder.id)
+  if (children.some(b => b.url === tab.url)) return
+  await chrome.bookmarks.create({ parentId: folder.id, title: tab.title || tab.url, url: tab.url })
+}
+
+async function scheduleTabClose(tab: chrome.tabs.Tab, minutes: number) {
+  if (!tab.id) return
+  const closes = await storage.getScheduledCloses()
+  // Keep an earlier deadline if the rule fires again before it passes
+  if (closes[tab.id] && closes[tab.id].url === tab.url) return
+  closes[tab.id] = { url: tab.url, closeAt: Date.now() + minutes * 60 * 1000 }
+  await storage.setScheduledCloses(closes)
+  await scheduleNextTabClose()
+}
+
+// Point the scheduledCloses alarm at the earliest pending close
+async function scheduleNextTabClose() {
+  const closes = await storage.getScheduledCloses()
+  const next = Math.min(...Object.values(closes).map(c => c.closeAt))
+  if (Number.isFinite(next)) {
+    chrome.alarms.create('scheduledCloses', { when: Math.max(next, Date.now() + 1000) })
+  } else {
+    await chrome.alarms.clear('scheduledCloses')
+  }
+}
+
+async function closeScheduledTabs() {
+  const closes = await storage.getScheduledCloses()
+  const now = Date.now()
+  const undo: UndoTarget = { batchId: newUndoBatchId(), reason: 'scheduled_close' }
+  let closedCount = 0
+
+  for (const [id, { url, closeAt }] of Object.entries(closes)) {
+    const tabId = Number(id)
+    const tab = await chrome.tabs.get(tabId).catch(() => null)
+    // Gone, navigated elsewhere, or a different tab reusing the id
+    if (!tab || tab.url !== url) {
+      delete closes[tabId]
+      continue
+    }
+    if (closeAt > now) continue
+    // Don't close the tab out from under the user; try again in a minute
+    if (tab.active) {
+      closes[tabId] = { url, closeAt: now + 60 * 1000 }
+      continue
     }
+    await closeTab(tab, undo).catch(() => {})
+    delete closes[tabId]
+    closedCount++
   }
+
+  await storage.setScheduledCloses(closes)
+  await scheduleNextTabClose()
+  if (closedCount > 0) await notifyUndo(undo.batchId)
 }
 
-// Add tab to a group
-async function addToGroup(tabId: number, groupName: string) {
+// Add tab to a group. New groups get the explicit color, else the color last
+// used for the group name, else a random one that is then remembered.
+async function addToGroup(tabId: number, groupName: string, color?: chrome.tabGroups.ColorEnum) {
   const groups = await chrome.tabGroups.query({ title: groupName })
   
   if (groups.length > 0) {
     await chrome.tabs.group({ tabIds: tabId, groupId: groups[0].id })
+    if (color && groups[0].color !== color) {
+      await chrome.tabGroups.update(groups[0].id, { color })
+      await storage.setGroupColor(groupName, color)
+    }
   } else {
     const groupId = await chrome.tabs.group({ tabIds: tabId })
-    const randomColor = getRandomGroupColor()
-    await chrome.tabGroups.update(groupId, { title: groupName, color: randomColor })
+    const groupColor = color || (await storage.getGroupColors())[groupName] || getRandomGroupColor()
+    await chrome.tabGroups.update(groupId, { title: groupName, color: groupColor })
+    await storage.setGroupColor(groupName, groupColor)
   }
 }
 
 // Get a random color for new groups
 function getRandomGroupColor(): chrome.tabGroups.ColorEnum {
-  const colors: chrome.tabGroups.ColorEnum[] = [
-    'grey', 'blue', 'red', 'yellow', 'green', 'pink', 'purple', 'cyan', 'orange'
-  ]
-  return colors[Math.floor(Math.random() * colors.length)]
+  return GROUP_COLORS[Math.floor(Math.random() * GROUP_COLORS.length)]
 }
 
 // Check for duplicate tabs
@@ -703,38 +1456,71 @@ async function checkDuplicates(tab: chrome.tabs.Tab) {
   const settings = await getCachedSettings()
   if (!settings.duplicateDetection || !tab.url || !tab.id) return
 
-  // Skip chrome:// URLs, new tab pages, and other special pages
-  if (tab.url.startsWith('chrome://') || 
-      tab.url.startsWith('chrome-extension://') ||
-      tab.url === 'chrome://newtab/' ||
-      tab.url === 'about:blank') {
-    return
-  }
+  const options = duplicateOptionsFromSettings(settings)
+  if (isIgnoredDuplicateUrl(tab.url) || isDuplicateAllowed(tab.url, options)) return
 
-  // Get all tabs and manually filter for exact URL matches
   const allTabs = await chrome.tabs.query({})
-  const exactMatches = allTabs.filter(t => t.url === tab.url && t.id !== tab.id)
+  // A rule may already have closed or archived this tab; keep the other copies
+  if (!allTabs.some(t => t.id === tab.id)) return
+
+  const url = normalizeDuplicateUrl(tab.url, options)
+  const matches = allTabs
+    .filter(t => t.id !== tab.id && !!t.url && normalizeDuplicateUrl(t.url, options) === url)
+    .sort((a, b) => a.id! - b.id!)
   
-  if (exactMatches.length > 0) {
-    console.log(`Found ${exactMatches.length} duplicate tabs for URL: ${tab.url}`)
-    
-    // Keep the most recently accessed tab (the current one)
-    const sortedTabs = exactMatches.sort((a, b) => {
-      const aTime = a.id ? (tabLastAccessed.get(a.id) || 0) : 0
-      const bTime = b.id ? (tabLastAccessed.get(b.id) || 0) : 0
-      return aTime - bTime // Oldest first, so we can remove them
-    })
+  if (matches.length > 0) {
+    console.log(`Found ${matches.length} duplicate tabs for URL: ${tab.url}`)
+    const undo: UndoTarget = { batchId: newUndoBatchId(), reason: 'duplicate' }
+
+    // Keep the existing copy, with its scroll position, form state and group
+    if (settings.duplicateMode === 'focus_existing') {
+      const existing = pickSurvivor(matches, settings.duplicateKeepPolicy, (tabId) => tabTimeSpent.get(tabId) || 0)
+      console.log(`Switching to existing tab instead: ${existing.title} (${existing.url})`)
+      await chrome.tabs.update(existing.id!, { active: true })
+      if (existing.windowId !== tab.windowId) {
+        await chrome.windows.update(existing.windowId, { focused: true })
+      }
+      await closeTab(tab, undo)
+      await notifyUndo(undo.batchId)
+      return
+    }
+
+    // Order copies by tab id, i.e. creation order, as findDuplicates does; the
+    // tab that just loaded may be an old tab navigated to this URL
+    const keep = pickSurvivor(
+      [...matches, tab].sort((a, b) => a.id! - b.id!),
+      settings.duplicateKeepPolicy,
+      (tabId) => tabTimeSpent.get(tabId) || 0
+    )
 
-    // Close older duplicates
-    for (const duplicateTab of sortedTabs) {
-      if (duplicateTab.id && duplicateTab.id !== tab.id) {
+    for (const duplicateTab of [...matches, tab]) {
+      if (duplicateTab.id && duplicateTab.id !== keep.id) {
         console.log(`Closing duplicate tab: ${duplicateTab.title} (${duplicateTab.url})`)
-        await chrome.tabs.remove(duplicateTab.id)
+        await closeTab(duplicateTab, undo)
       }
     }
+    await notifyUndo(undo.batchId)
   }
 }
 
+// Close or archive the copies picked in the popup's duplicate review as one undo batch
+async function removeDuplicateTabs(tabIds: number[], archive: boolean): Promise<number> {
+  const undo: UndoTarget = { batchId: newUndoBatchId(), reason: 'duplicate' }
+  let removed = 0
+  for (const tabId of tabIds) {
+    const tab = await chrome.tabs.get(tabId).catch(() => null)
+    if (!tab) continue
+    if (archive) {
+      await archiveTab(tab, undo)
+    } else {
+      await closeTab(tab, undo)
+    }
+    removed++
+  }
+  await notifyUndo(undo.batchId)
+  return removed
+}
+
 // Daily cleanup
 async function performDailyCleanup() {
   // Clean up old archived tabs (older than 30 days)
@@ -759,6 +1545,7 @@ async function performDailyCleanup() {
 async function suspendMemoryHeavyTabs() {
   const settings = await getCachedSettings()
   if (!settings.memorySaverEnabled) return
+  await activityLoaded
 
   const tabs = await chrome.tabs.query({ active: false, pinned: false })
   const tabCount = tabs.length
@@ -773,45 +1560,54 @@ async function suspendMemoryHeavyTabs() {
       if (!tab.id || !tab.url) return false
       
       // Check if domain is excluded
-      const url = new URL(tab.url)
-      const domain = url.hostname
-      const isExcluded = settings.memorySaverExcludedDomains.some(excluded => {
-        // Simple wildcard matching - exact match or ends with excluded domain
-        if (excluded.startsWith('*.')) {
-          return domain.endsWith(excluded.slice(2))
-        }
-        return domain === excluded
-      })
-      
-      if (isExcluded) return false
+      if (isExcludedFromMemorySaver(tab, settings)) return false
       
-      const lastAccessed = tabLastAccessed.get(tab.id) || 0
-      return Date.now() - lastAccessed > 15 * 60 * 1000 // 15 minutes
+      return Date.now() - lastAccessedOf(tab) > 15 * 60 * 1000 // 15 minutes
     })
 
     // Sort by last accessed time (oldest first)
-    inactiveTabs.sort((a, b) => {
-      const aTime = a.id ? (tabLastAccessed.get(a.id) || 0) : 0
-      const bTime = b.id ? (tabLastAccessed.get(b.id) || 0) : 0
-      return aTime - bTime
-    })
+    inactiveTabs.sort((a, b) => lastAccessedOf(a) - lastAccessedOf(b))
 
     // Suspend tabs until we're under threshold
     const tabsToSuspend = Math.ceil((estimatedMemoryMB - settings.memorySaverThresholdMB) / 50)
     const tabsToProcess = inactiveTabs.slice(0, tabsToSuspend)
     
     for (const tab of tabsToProcess) {
-      if (tab.id && !tab.discarded) {
-        await chrome.tabs.discard(tab.id)
-      }
+      await suspendTab(tab)
     }
   }
 }
 
+// Check the tab's domain against the memory saver exclusion list
+function isExcludedFromMemorySaver(tab: chrome.tabs.Tab, settings: Settings): boolean {
+  if (!tab.url) return false
+  let domain: string
+  try {
+    domain = new URL(tab.url).hostname
+  } catch {
+    return false
+  }
+  return settings.memorySaverExcludedDomains.some(excluded => {
+    // Simple wildcard matching - exact match or ends with excluded domain
+    if (excluded.startsWith('*.')) {
+      return domain.endsWith(excluded.slice(2))
+    }
+    return domain === excluded
+  })
+}
+
+// Discard a tab to free its memory; it reloads when activated again
+async function suspendTab(tab: chrome.tabs.Tab) {
+  if (tab.id && !tab.discarded) {
+    await chrome.tabs.discard(tab.id)
+  }
+}
+
 // Enforce tab limits
 async function enforceTabLimits() {
   const settings = await getCachedSettings()
   if (!settings.tabLimitEnabled) return
+  await activityLoaded
 
   const tabs = await chrome.tabs.query({})
   const tabCount = tabs.length
@@ -820,19 +1616,17 @@ async function enforceTabLimits() {
     // Find the oldest inactive tabs (not pinned, not active)
     const inactiveTabs = tabs.filter(tab => 
       !tab.pinned && !tab.active && tab.id
-    ).sort((a, b) => {
-      const aTime = a.id ? (tabLastAccessed.get(a.id) || 0) : 0
-      const bTime = b.id ? (tabLastAccessed.get(b.id) || 0) : 0
-      return aTime - bTime // Oldest first
-    })
+    ).sort((a, b) => lastAccessedOf(a) - lastAccessedOf(b)) // Oldest first
 
     const tabsToClose = tabCount - settings.tabLimitCount
     const tabsToArchive = inactiveTabs.slice(0, tabsToClose)
     
     // Archive tabs before closing to preserve them
+    const undo: UndoTarget = { batchId: newUndoBatchId(), reason: 'tab_limit' }
     for (const tab of tabsToArchive) {
-      await archiveTab(tab)
+      await archiveTab(tab, undo)
     }
+    if (tabsToArchive.length > 0) await notifyUndo(undo.batchId)
   }
 }
 
@@ -865,6 +1659,59 @@ chrome.runtime.onMessage.addListener((request, sender, sendResponse) => {
     sendResponse({ previousTabId })
     return true
   }
+  // Rule previews and duplicate cleanup in the popup need the activity data tracked here
+  if (request.action === 'getTabActivity') {
+    activityLoaded.then(() => sendResponse({
+      lastAccessed: Object.fromEntries(tabLastAccessed),
+      timeSpent: Object.fromEntries(tabTimeSpent)
+    }))
+    return true
+  }
+  if (request.action === 'undoRemoval') {
+    undoRemoval(request.batchId)
+      .then(restored => sendResponse({ restored }))
+      .catch((e) => {
+        console.error('Failed to undo removal:', e)
+        sendResponse({ restored: 0 })
+      })
+    return true
+  }
+  if (request.action === 'removeDuplicates') {
+    removeDuplicateTabs(request.tabIds || [], request.archive === true)
+      .then(removed => sendResponse({ removed }))
+      .catch((e) => {
+        console.error('Failed to remove duplicates:', e)
+        sendResponse({ removed: 0 })
+      })
+    return true
+  }
+  if (request.action === 'switchWorkspace') {
+    switchToWorkspace(request.workspaceId, request.windowId)
+      .then(() => sendResponse({ ok: true }))
+      .catch((e) => {
+        console.error('Failed to switch workspace:', e)
+        sendResponse({ ok: false })
+      })
+    return true
+  }
+  if (request.action === 'resolveGroupMatch') {
+    resolveGroupMatch(request.workspaceId, request.groupId ?? null)
+      .then(() => sendResponse({ ok: true }))
+      .catch((e) => {
+        console.error('Failed to link saved group:', e)
+        sendResponse({ ok: false })
+      })
+    return true
+  }
+  if (request.action === 'runRules') {
+    runRulesOnDemand(request)
+      .then(sendResponse)
+      .catch((e) => {
+        console.error('Failed to run rules:', e)
+        sendResponse(null)
+      })
+    return true
+  }
 })
 
 // Ensure an offscreen document exists for clipboard access
@@ -894,11 +1741,13 @@ async function copyTextViaOffscreen(text: string): Promise<boolean> {
   }
 }
 
-async function showToast(tabId: number, message: string) {
+// Show a short message in the page. With an undo batch the toast stays up
+// longer and has an Undo button for it.
+async function showToast(tabId: number, message: string, undoBatchId?: string) {
   try {
     await chrome.scripting.executeScript({
       target: { tabId },
-      func: (msg: string) => {
+      func: (msg: string, batchId: string | null) => {
         try {
           const container = document.createElement('div')
           container.textContent = msg
@@ -916,21 +1765,41 @@ async function showToast(tabId: number, message: string) {
             boxShadow: '0 10px 15px -3px rgba(0,0,0,0.3), 0 4px 6px -2px rgba(0,0,0,0.25)',
             opacity: '0',
             transition: 'opacity 120ms ease, transform 120ms ease',
-            pointerEvents: 'none',
+            pointerEvents: batchId ? 'auto' : 'none',
           } as Partial<CSSStyleDeclaration>)
+          const hide = () => {
+            container.style.opacity = '0'
+            container.style.transform = 'translateX(-50%) translateY(-8px)'
+            setTimeout(() => container.remove(), 180)
+          }
+          if (batchId) {
+            const undo = document.createElement('button')
+            undo.textContent = 'Undo'
+            Object.assign(undo.style, {
+              marginLeft: '12px',
+              background: 'none',
+              border: 'none',
+              color: '#93c5fd',
+              font: 'inherit',
+              fontWeight: '600',
+              cursor: 'pointer',
+              padding: '0',
+            } as Partial<CSSStyleDeclaration>)
+            undo.addEventListener('click', () => {
+              chrome.runtime.sendMessage({ action: 'undoRemoval', batchId })
+              hide()
+            })
+            container.appendChild(undo)
+          }
           document.documentElement.appendChild(container)
           requestAnimationFrame(() => {
             container.style.opacity = '1'
             container.style.transform = 'translateX(-50%) translateY(0)'
           })
-          setTimeout(() => {
-            container.style.opacity = '0'
-            container.style.transform = 'translateX(-50%) translateY(-8px)'
-            setTimeout(() => container.remove(), 180)
-          }, 1400)
+          setTimeout(hide, batchId ? 6000 : 1400)
         } catch {}
       },
-      args: [message],
+      args: [message, undoBatchId ?? null],
     })
   } catch {}
 }
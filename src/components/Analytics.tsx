@@ -25,8 +25,12 @@ import {
   ResponsiveContainer 
 } from 'recharts'
 import { cn } from '@/utils/cn'
+import { storage } from '@/utils/storage'
+import { formatDayKey } from '@/utils/format'
 import type { TabStats } from '@/types'
 
+const RANGE_DAYS = { today: 1, week: 7, month: 30 } as const
+
 export function Analytics() {
   const [stats, setStats] = useState<TabStats | null>(null)
   const [timeRange, setTimeRange] = useState<'today' | 'week' | 'month'>('today')
@@ -34,7 +38,7 @@ export function Analytics() {
 
   useEffect(() => {
     loadStats()
-  }, [])
+  }, [timeRange])
 
   async function loadStats() {
     setLoading(true)
@@ -51,16 +55,15 @@ export function Analytics() {
       const dailyData = await chrome.storage.local.get('dailyStats')
       const dailyStats = dailyData.dailyStats || { tabsOpened: 0, tabsClosed: 0 }
       
-      // Calculate domain stats
+      // Sum attention time per domain over the selected range
+      const domainTime = await storage.getDomainTime()
       const domainStats: Record<string, number> = {}
-      tabs.forEach(tab => {
-        if (tab.url) {
-          try {
-            const domain = new URL(tab.url).hostname
-            domainStats[domain] = (domainStats[domain] || 0) + 1
-          } catch {}
+      for (let i = 0; i < RANGE_DAYS[timeRange]; i++) {
+        const day = formatDayKey(Date.now() - i * 24 * 60 * 60 * 1000)
+        for (const [domain, ms] of Object.entries(domainTime[day] || {})) {
+          domainStats[domain] = (domainStats[domain] || 0) + ms
         }
-      })
+      }
       
       // Calculate average tab lifespan from archived tabs
       const lifespans = archivedTabs
@@ -103,11 +106,12 @@ export function Analytics() {
 
   // Prepare chart data
   const domainData = Object.entries(stats.timeByDomain)
+    .filter(([, ms]) => ms >= 60000)
     .sort(([, a], [, b]) => b - a)
     .slice(0, 5)
-    .map(([domain, count]) => ({
+    .map(([domain, ms]) => ({
       name: domain.length > 20 ? domain.substring(0, 20) + '...' : domain,
-      value: count
+      value: Math.round(ms / 60000)
     }))
 
   const pieColors = ['#0088FE', '#00C49F', '#FFBB28', '#FF8042', '#8884D8']
@@ -175,7 +179,7 @@ export function Analytics() {
       {/* Top Domains Chart */}
       {domainData.length > 0 && (
         <div className="space-y-2">
-          <h4 className="text-sm font-medium">Top Domains</h4>
+          <h4 className="text-sm font-medium">Time by Domain (minutes)</h4>
           <div className="h-48 glass rounded-lg p-4">
             <ResponsiveContainer width="100%" height="100%">
               <BarChart data={domainData} margin={{ top: 5, right: 5, bottom: 5, left: 5 }}>
@@ -7,6 +7,10 @@ import {
   ClockIcon,
   Cross2Icon
 } from '@radix-ui/react-icons'
+import { storage } from '@/utils/storage'
+import { matchesTags } from '@/utils/tags'
+import { formatTimeAgo } from '@/utils/format'
+import { TagList } from './TagList'
 
 interface ArchivedTab {
   url: string
@@ -14,6 +18,7 @@ interface ArchivedTab {
   favIconUrl?: string
   archivedAt: number
   timeSpent?: number
+  tags?: string[]
 }
 
 export function ArchivedTabs() {
@@ -30,7 +35,10 @@ export function ArchivedTabs() {
   }
 
   async function restoreTab(tab: ArchivedTab, index: number) {
-    await chrome.tabs.create({ url: tab.url })
+    const restored = await chrome.tabs.create({ url: tab.url })
+    if (restored.id !== undefined && tab.tags?.length) {
+      await storage.mergeTabTags({ [restored.id]: { url: tab.url, tags: tab.tags } })
+    }
     
     // Remove from archived
     const newArchived = [...archivedTabs]
@@ -56,7 +64,8 @@ export function ArchivedTabs() {
   const filteredTabs = archivedTabs.filter(tab => 
     !searchQuery || 
     tab.title?.toLowerCase().includes(searchQuery.toLowerCase()) ||
-    tab.url?.toLowerCase().includes(searchQuery.toLowerCase())
+    tab.url?.toLowerCase().includes(searchQuery.toLowerCase()) ||
+    matchesTags(tab.tags, searchQuery.toLowerCase())
   )
 
   // Sort by archived date (newest first)
@@ -134,9 +143,10 @@ export function ArchivedTabs() {
                       <span className="truncate">{new URL(tab.url).hostname}</span>
                       <span className="flex items-center gap-1">
                         <ClockIcon className="w-3 h-3" />
-                        {formatDate(tab.archivedAt)}
+                        {formatTimeAgo(tab.archivedAt)}
                       </span>
                     </div>
+                    <TagList tags={tab.tags} />
                   </div>
                   
                   {/* Actions - overlay on the right */}
@@ -178,23 +188,3 @@ export function ArchivedTabs() {
     </div>
   )
 }
-
-function formatDate(timestamp: number): string {
-  const date = new Date(timestamp)
-  const now = new Date()
-  const diff = now.getTime() - date.getTime()
-  
-  if (diff < 3600000) { // Less than 1 hour
-    const minutes = Math.floor(diff / 60000)
-    return `${minutes}m ago`
-  } else if (diff < 86400000) { // Less than 1 day
-    const hours = Math.floor(diff / 3600000)
-    return `${hours}h ago`
-  } else if (diff < 604800000) { // Less than 1 week
-    const days = Math.floor(diff / 86400000)
-    return `${days}d ago`
-  } else {
-    return date.toLocaleDateString()
-  }
-}
-
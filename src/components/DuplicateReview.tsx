@@ -0,0 +1,263 @@
+import { useEffect, useState } from 'react'
+import { motion, AnimatePresence } from 'motion/react'
+import {
+  CopyIcon,
+  ArchiveIcon,
+  CheckIcon,
+  LayersIcon,
+  ClockIcon,
+  ReloadIcon
+} from '@radix-ui/react-icons'
+import { cn } from '@/utils/cn'
+import { storage } from '@/utils/storage'
+import { duplicateOptionsFromSettings, findDuplicates, type DuplicateSet } from '@/utils/duplicates'
+import { formatTimeAgo } from '@/utils/format'
+
+interface DuplicateReviewProps {
+  onUpdate?: () => void
+}
+
+// Duplicate copies of pages across every window, for reviewing before anything is closed
+export function DuplicateReview({ onUpdate }: DuplicateReviewProps) {
+  const [clusters, setClusters] = useState<DuplicateSet[]>([])
+  const [groups, setGroups] = useState<Map<number, chrome.tabGroups.TabGroup>>(new Map())
+  const [windowLabels, setWindowLabels] = useState<Map<number, string>>(new Map())
+  const [lastAccessed, setLastAccessed] = useState<Record<number, number>>({})
+  const [busyUrl, setBusyUrl] = useState<string | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+
+  useEffect(() => {
+    loadDuplicates()
+  }, [])
+
+  async function loadDuplicates() {
+    const [tabs, allGroups, windows, currentWindow, settings, activity] = await Promise.all([
+      chrome.tabs.query({}),
+      chrome.tabGroups.query({}),
+      chrome.windows.getAll(),
+      chrome.windows.getCurrent(),
+      storage.getSettings(),
+      chrome.runtime.sendMessage({ action: 'getTabActivity' }).catch(() => null)
+    ])
+
+    const timeSpent: Record<number, number> = activity?.timeSpent || {}
+    setClusters(findDuplicates(
+      tabs,
+      duplicateOptionsFromSettings(settings),
+      settings.duplicateKeepPolicy,
+      (tabId) => timeSpent[tabId] || 0
+    ))
+    setGroups(new Map(allGroups.map(g => [g.id, g])))
+    setWindowLabels(new Map(
+      windows
+        .sort((a, b) => (a.id ?? 0) - (b.id ?? 0))
+        .map((w, index) => [w.id!, w.id === currentWindow.id ? 'This window' : `Window ${index + 1}`])
+    ))
+    setLastAccessed(activity?.lastAccessed || {})
+    setIsLoading(false)
+  }
+
+  async function runClusterAction(set: DuplicateSet, action: () => Promise<void>) {
+    setBusyUrl(set.keep.url || null)
+    try {
+      await action()
+    } catch (error) {
+      console.error('Failed to resolve duplicates:', error)
+    }
+    setBusyUrl(null)
+    await loadDuplicates()
+    onUpdate?.()
+  }
+
+  // Keep one copy and close the rest; closing goes through the background so it can be undone
+  function keepOnly(set: DuplicateSet, keep: chrome.tabs.Tab) {
+    const tabIds = [set.keep, ...set.close].filter(t => t.id !== keep.id).map(t => t.id!)
+    return runClusterAction(set, async () => {
+      await chrome.runtime.sendMessage({ action: 'removeDuplicates', tabIds })
+    })
+  }
+
+  function archiveExtras(set: DuplicateSet) {
+    return runClusterAction(set, async () => {
+      await chrome.runtime.sendMessage({
+        action: 'removeDuplicates',
+        tabIds: set.close.map(t => t.id!),
+        archive: true
+      })
+    })
+  }
+
+  // Gather every copy into one group in the kept copy's window. Pinned tabs
+  // can't be grouped, so they stay where they are.
+  function mergeIntoGroup(set: DuplicateSet) {
+    return runClusterAction(set, async () => {
+      const target = set.keep
+      const copies = [target, ...set.close].filter(t => !t.pinned)
+      if (copies.length === 0) return
+
+      const existingGroupId = copies
+        .filter(t => t.windowId === target.windowId)
+        .map(t => t.groupId)
+        .find(id => id !== undefined && id !== chrome.tabGroups.TAB_GROUP_ID_NONE)
+
+      const elsewhere = copies.filter(t => t.windowId !== target.windowId).map(t => t.id!)
+      if (elsewhere.length > 0) {
+        await chrome.tabs.move(elsewhere, { windowId: target.windowId, index: -1 })
+      }
+
+      const tabIds = copies.map(t => t.id!)
+      if (existingGroupId !== undefined) {
+        await chrome.tabs.group({ tabIds, groupId: existingGroupId })
+        return
+      }
+
+      const groupId = await chrome.tabs.group({ tabIds, createProperties: { windowId: target.windowId } })
+      const title = hostnameOf(target.url) || target.title || ''
+      const color = (await storage.getGroupColors())[title]
+      await chrome.tabGroups.update(groupId, color ? { title, color } : { title })
+    })
+  }
+
+  async function focusTab(tab: chrome.tabs.Tab) {
+    if (!tab.id) return
+    await chrome.tabs.update(tab.id, { active: true })
+    await chrome.windows.update(tab.windowId, { focused: true })
+  }
+
+  const extraCount = clusters.reduce((sum, set) => sum + set.close.length, 0)
+
+  return (
+    <div className="space-y-4">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-semibold flex items-center gap-2">
+            <CopyIcon className="w-5 h-5" />
+            Duplicate Tabs
+          </h3>
+          <p className="text-sm text-muted-foreground">
+            {clusters.length} pages open more than once, {extraCount} extra tabs across all windows
+          </p>
+        </div>
+        <button
+          onClick={loadDuplicates}
+          className="p-2 rounded-md hover:bg-accent"
+          aria-label="Refresh duplicates"
+        >
+          <ReloadIcon className="w-4 h-4" />
+        </button>
+      </div>
+
+      {/* Clusters */}
+      <div className="space-y-3">
+        <AnimatePresence>
+          {clusters.map((set) => {
+            const copies = [set.keep, ...set.close]
+            const busy = busyUrl === set.keep.url
+            return (
+              <motion.div
+                key={set.keep.id}
+                layout
+                initial={{ opacity: 0, x: -10 }}
+                animate={{ opacity: 1, x: 0 }}
+                exit={{ opacity: 0, x: 10 }}
+                className={cn('p-3 rounded-lg glass space-y-2', busy && 'opacity-50 pointer-events-none')}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium truncate">{set.keep.title || 'Untitled'}</p>
+                    <p className="text-xs text-muted-foreground truncate">
+                      {copies.length} copies of {hostnameOf(set.keep.url) || set.keep.url}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-1 flex-shrink-0">
+                    <button
+                      onClick={() => mergeIntoGroup(set)}
+                      className="flex items-center gap-1 px-2 py-1 text-xs rounded-md hover:bg-accent"
+                      title="Move every copy into one group"
+                    >
+                      <LayersIcon className="w-3 h-3" />
+                      Group
+                    </button>
+                    <button
+                      onClick={() => archiveExtras(set)}
+                      className="flex items-center gap-1 px-2 py-1 text-xs rounded-md hover:bg-accent"
+                      title="Archive every copy except the one marked Keep"
+                    >
+                      <ArchiveIcon className="w-3 h-3" />
+                      Archive extras
+                    </button>
+                  </div>
+                </div>
+
+                <div className="space-y-1">
+                  {copies.map((tab) => {
+                    const group = tab.groupId !== undefined ? groups.get(tab.groupId) : undefined
+                    const accessed = tab.id !== undefined ? lastAccessed[tab.id] : undefined
+                    return (
+                      <div
+                        key={tab.id}
+                        className="group flex items-center gap-2 p-2 rounded-md hover:bg-accent/50"
+                      >
+                        <button
+                          onClick={() => focusTab(tab)}
+                          className="flex-1 min-w-0 text-left"
+                        >
+                          <div className="flex items-center gap-2 text-xs">
+                            <span className="font-medium">{windowLabels.get(tab.windowId) || 'Window'}</span>
+                            {group && (
+                              <span className="flex items-center gap-1 truncate">
+                                <span
+                                  className="w-2 h-2 rounded-full flex-shrink-0"
+                                  style={{ backgroundColor: `var(--color-${group.color})` }}
+                                />
+                                {group.title || 'Untitled group'}
+                              </span>
+                            )}
+                            {tab.pinned && <span className="text-muted-foreground">Pinned</span>}
+                            {tab === set.keep && (
+                              <span className="px-1.5 rounded bg-primary/10 text-primary">Keep</span>
+                            )}
+                          </div>
+                          <p className="flex items-center gap-1 text-xs text-muted-foreground">
+                            <ClockIcon className="w-3 h-3" />
+                            {accessed ? formatTimeAgo(accessed) : 'Not visited yet'}
+                          </p>
+                        </button>
+                        <button
+                          onClick={() => keepOnly(set, tab)}
+                          className="flex items-center gap-1 px-2 py-1 text-xs rounded-md opacity-0 group-hover:opacity-100 transition-opacity hover:bg-accent"
+                          title="Close the other copies"
+                        >
+                          <CheckIcon className="w-3 h-3" />
+                          Keep only this
+                        </button>
+                      </div>
+                    )
+                  })}
+                </div>
+              </motion.div>
+            )
+          })}
+        </AnimatePresence>
+      </div>
+
+      {!isLoading && clusters.length === 0 && (
+        <div className="text-center py-8 text-muted-foreground">
+          <CopyIcon className="w-12 h-12 mx-auto mb-3 opacity-50" />
+          <p>No duplicate tabs</p>
+          <p className="text-sm mt-2">Pages open in more than one tab will appear here</p>
+        </div>
+      )}
+    </div>
+  )
+}
+
+function hostnameOf(url?: string): string {
+  if (!url) return ''
+  try {
+    return new URL(url).hostname
+  } catch {
+    return ''
+  }
+}
@@ -1,4 +1,4 @@
-import React from 'react'
+import React, { useEffect, useState } from 'react'
 import { 
   ArchiveIcon, 
   Cross2Icon, 
@@ -6,11 +6,15 @@ import {
   CopyIcon,
   MoonIcon,
   SunIcon,
-  GearIcon
+  GearIcon,
+  ResetIcon
 } from '@radix-ui/react-icons'
 import { cn } from '@/utils/cn'
+import { storage } from '@/utils/storage'
+import { findDuplicatesWithSettings } from '@/utils/duplicates'
+import { describeRemovals, latestUndoBatch } from '@/utils/undo'
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip'
-import type { Settings } from '@/types'
+import type { RemovedTab, Settings } from '@/types'
 
 interface HeaderActionsProps {
   settings: Settings | null
@@ -19,26 +23,35 @@ interface HeaderActionsProps {
 }
 
 export function HeaderActions({ settings, onToggleTheme, onActionComplete }: HeaderActionsProps) {
-  async function closeDuplicates() {
-    const tabs = await chrome.tabs.query({ currentWindow: true })
-    const urlMap = new Map<string, chrome.tabs.Tab[]>()
-    
-    tabs.forEach(tab => {
-      if (tab.url) {
-        const existing = urlMap.get(tab.url) || []
-        urlMap.set(tab.url, [...existing, tab])
-      }
-    })
+  const [undoBatch, setUndoBatch] = useState<RemovedTab[]>([])
 
-    const toClose: number[] = []
-    urlMap.forEach(tabsWithSameUrl => {
-      if (tabsWithSameUrl.length > 1) {
-        // Keep the first one, close the rest
-        tabsWithSameUrl.slice(1).forEach(tab => {
-          if (tab.id) toClose.push(tab.id)
-        })
+  useEffect(() => {
+    loadUndoBatch()
+    const handler = (message: any) => {
+      if (message?.action === 'undoJournalUpdated') {
+        loadUndoBatch()
       }
-    })
+    }
+    chrome.runtime.onMessage.addListener(handler)
+    return () => chrome.runtime.onMessage.removeListener(handler)
+  }, [])
+
+  async function loadUndoBatch() {
+    setUndoBatch(latestUndoBatch(await storage.getUndoJournal()))
+  }
+
+  // Restoring happens in the background so it can reopen tabs into their groups
+  async function undoLastRemoval() {
+    if (undoBatch.length === 0) return
+    await chrome.runtime.sendMessage({ action: 'undoRemoval', batchId: undoBatch[0].batchId })
+    await loadUndoBatch()
+    onActionComplete?.()
+  }
+
+  async function closeDuplicates() {
+    const tabs = await chrome.tabs.query({ currentWindow: true })
+    const duplicates = await findDuplicatesWithSettings(tabs)
+    const toClose = duplicates.flatMap(set => set.close.map(tab => tab.id!))
 
     if (toClose.length > 0) {
       await chrome.tabs.remove(toClose)
@@ -69,11 +82,13 @@ export function HeaderActions({ settings, onToggleTheme, onActionComplete }: Hea
       pinned: false
     })
 
+    const tabTags = await storage.getTabTags()
     const archived = tabs.map(tab => ({
       url: tab.url,
       title: tab.title,
       favIconUrl: tab.favIconUrl,
-      archivedAt: Date.now()
+      archivedAt: Date.now(),
+      tags: tab.id !== undefined ? tabTags[tab.id]?.tags : undefined
     }))
 
     const existing = await chrome.storage.local.get('archivedTabs')
@@ -134,6 +149,24 @@ export function HeaderActions({ settings, onToggleTheme, onActionComplete }: Hea
           ))}
         </div>
 
+        {/* Undo */}
+        {undoBatch.length > 0 && (
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <button
+                onClick={undoLastRemoval}
+                className="p-2 rounded-md glass-hover"
+                aria-label="Undo"
+              >
+                <ResetIcon className="w-4 h-4" />
+              </button>
+            </TooltipTrigger>
+            <TooltipContent>
+              <p>Undo: {describeRemovals(undoBatch)}</p>
+            </TooltipContent>
+          </Tooltip>
+        )}
+
         {/* Theme Toggle */}
         <Tooltip>
           <TooltipTrigger asChild>
@@ -16,7 +16,8 @@ import {
 } from '@radix-ui/react-icons'
 import { cn } from '@/utils/cn'
 import { storage } from '@/utils/storage'
-import type { Settings } from '@/types'
+import { clampEagerTabs } from '@/utils/workspaces'
+import type { DuplicateKeepPolicy, DuplicateMode, Settings, WorkspaceSwitchMode } from '@/types'
 
 export function OptionsApp() {
   const [settings, setSettings] = useState<Settings | null>(null)
@@ -281,6 +282,111 @@ export function OptionsApp() {
                 checked={settings.duplicateDetection}
                 onChange={(checked) => updateSetting('duplicateDetection', checked)}
               />
+
+              {settings.duplicateDetection && (
+                <div>
+                  <label className="text-sm font-medium mb-2 block">
+                    When a page is already open
+                  </label>
+                  <select
+                    value={settings.duplicateMode}
+                    onChange={(e) => updateSetting('duplicateMode', e.target.value as DuplicateMode)}
+                    className="w-full p-2 rounded-md border bg-background"
+                  >
+                    <option value="close_others">Close the other copies</option>
+                    <option value="focus_existing">Close the new tab and switch to the open one</option>
+                  </select>
+                </div>
+              )}
+
+              {/* Also used by Close Duplicates in the popup, so shown even when detection is off */}
+              <Switch
+                label="Ignore #fragments"
+                description="Treat page.html#a and page.html#b as the same page"
+                checked={settings.duplicateIgnoreHash}
+                onChange={(checked) => updateSetting('duplicateIgnoreHash', checked)}
+              />
+              <Switch
+                label="Ignore tracking parameters"
+                description="Drop utm_* and click ids like fbclid or gclid before comparing"
+                checked={settings.duplicateStripTrackingParams}
+                onChange={(checked) => updateSetting('duplicateStripTrackingParams', checked)}
+              />
+              <Switch
+                label="Ignore trailing slash"
+                description="Treat /docs and /docs/ as the same page"
+                checked={settings.duplicateIgnoreTrailingSlash}
+                onChange={(checked) => updateSetting('duplicateIgnoreTrailingSlash', checked)}
+              />
+              <Switch
+                label="Ignore http vs https"
+                description="Treat the http and https versions of a page as duplicates"
+                checked={settings.duplicateIgnoreProtocol}
+                onChange={(checked) => updateSetting('duplicateIgnoreProtocol', checked)}
+              />
+
+              <div>
+                <label className="text-sm font-medium mb-2 block">
+                  Keep which duplicate
+                </label>
+                <select
+                  value={settings.duplicateKeepPolicy}
+                  onChange={(e) => updateSetting('duplicateKeepPolicy', e.target.value as DuplicateKeepPolicy)}
+                  className="w-full p-2 rounded-md border bg-background"
+                >
+                  <option value="newest">Newest tab</option>
+                  <option value="oldest">Oldest tab</option>
+                  <option value="pinned">Pinned tab</option>
+                  <option value="grouped">Tab in a group</option>
+                  <option value="most_time">Tab with the most time spent</option>
+                </select>
+                <p className="text-xs text-muted-foreground mt-1">
+                  When no copy is pinned or grouped, the newest one is kept
+                </p>
+              </div>
+
+              <div>
+                <label className="text-sm font-medium mb-2 block">
+                  Allow duplicates on these domains
+                </label>
+                <div className="space-y-2">
+                  {settings.duplicateAllowedDomains.map((domain, index) => (
+                    <div key={index} className="flex items-center gap-2">
+                      <input
+                        type="text"
+                        value={domain}
+                        onChange={(e) => {
+                          const newDomains = [...settings.duplicateAllowedDomains]
+                          newDomains[index] = e.target.value
+                          updateSetting('duplicateAllowedDomains', newDomains)
+                        }}
+                        placeholder="localhost or *.example.com"
+                        className="flex-1 p-2 rounded-md border bg-background text-sm"
+                      />
+                      <button
+                        onClick={() => {
+                          const newDomains = settings.duplicateAllowedDomains.filter((_, i) => i !== index)
+                          updateSetting('duplicateAllowedDomains', newDomains)
+                        }}
+                        className="p-2 rounded-md hover:bg-destructive hover:text-destructive-foreground"
+                      >
+                        <TrashIcon className="w-4 h-4" />
+                      </button>
+                    </div>
+                  ))}
+                  <button
+                    onClick={() => {
+                      updateSetting('duplicateAllowedDomains', [...settings.duplicateAllowedDomains, ''])
+                    }}
+                    className="text-sm text-primary hover:underline"
+                  >
+                    + Add domain
+                  </button>
+                </div>
+                <p className="text-xs text-muted-foreground mt-1">
+                  Tabs on these domains are never closed as duplicates, e.g. local dev servers
+                </p>
+              </div>
             </div>
           </Section>
 
@@ -340,6 +446,50 @@ export function OptionsApp() {
                   </p>
                 </div>
               )}
+
+              <div>
+                <label className="text-sm font-medium mb-2 block">
+                  When switching workspaces
+                </label>
+                <select
+                  value={settings.workspaceSwitchMode}
+                  onChange={(e) => updateSetting('workspaceSwitchMode', e.target.value as WorkspaceSwitchMode)}
+                  className="w-full p-2 rounded-md border bg-background"
+                >
+                  <option value="stash">Stash the current tabs, then replace them</option>
+                  <option value="new_window">Open the workspace in a new window</option>
+                  <option value="merge">Add the workspace to the current window</option>
+                </select>
+                <p className="text-xs text-muted-foreground mt-1">
+                  Stashed tabs are saved as a workspace, so switching can always be undone
+                </p>
+              </div>
+
+              <Switch
+                label="Lazy restore"
+                description="Restore saved groups and workspaces without loading every tab at once"
+                checked={settings.lazyRestore}
+                onChange={(checked) => updateSetting('lazyRestore', checked)}
+              />
+
+              {settings.lazyRestore && (
+                <div>
+                  <label className="text-sm font-medium mb-2 block">
+                    Tabs to load right away
+                  </label>
+                  <input
+                    type="number"
+                    min="0"
+                    max="50"
+                    value={settings.lazyRestoreEagerTabs}
+                    onChange={(e) => updateSetting('lazyRestoreEagerTabs', clampEagerTabs(Number(e.target.value)))}
+                    className="w-full p-2 rounded-md border bg-background"
+                  />
+                  <p className="text-xs text-muted-foreground mt-1">
+                    The rest stay unloaded until you switch to them
+                  </p>
+                </div>
+              )}
             </div>
           </Section>
 
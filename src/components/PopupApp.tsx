@@ -10,26 +10,31 @@ import {
   LayersIcon,
   MagnifyingGlassIcon,
   PlusIcon,
-  BarChartIcon
+  BarChartIcon,
+  CopyIcon,
+  StackIcon
 } from '@radix-ui/react-icons'
 import { cn } from '@/utils/cn'
 import { storage } from '@/utils/storage'
-import type { TabInfo, TabGroup, Settings } from '@/types'
+import type { TabInfo, TabGroup, Settings, TabTags } from '@/types'
+import { matchesTags } from '@/utils/tags'
 import { TabList } from './TabList'
 import { WorkspaceView } from './WorkspaceView'
 import { SearchBar } from './SearchBar'
 import { TabRules } from './TabRules'
 import { Analytics } from './Analytics'
 import { ArchivedTabs } from './ArchivedTabs'
+import { DuplicateReview } from './DuplicateReview'
 import { HeaderActions } from './HeaderActions'
 
-type View = 'tabs' | 'archived' | 'automation' | 'analytics'
+type View = 'tabs' | 'workspaces' | 'archived' | 'duplicates' | 'automation' | 'analytics'
 
 export function PopupApp() {
   const [settings, setSettings] = useState<Settings | null>(null)
   const [currentView, setCurrentView] = useState<View>('tabs')
   const [tabs, setTabs] = useState<chrome.tabs.Tab[]>([])
   const [groups, setGroups] = useState<chrome.tabGroups.TabGroup[]>([])
+  const [tabTags, setTabTags] = useState<TabTags>({})
   const [searchQuery, setSearchQuery] = useState('')
   const [selectedIndex, setSelectedIndex] = useState(-1)
   const [isLoading, setIsLoading] = useState(true)
@@ -60,12 +65,14 @@ export function PopupApp() {
   }
 
   async function loadTabs() {
-    const [allTabs, allGroups] = await Promise.all([
+    const [allTabs, allGroups, tags] = await Promise.all([
       chrome.tabs.query({ currentWindow: true }),
-      chrome.tabGroups.query({ windowId: chrome.windows.WINDOW_ID_CURRENT })
+      chrome.tabGroups.query({ windowId: chrome.windows.WINDOW_ID_CURRENT }),
+      storage.getTabTags()
     ])
     setTabs(allTabs)
     setGroups(allGroups)
+    setTabTags(tags)
   }
 
   async function toggleTheme() {
@@ -82,9 +89,10 @@ export function PopupApp() {
     const query = searchQuery.toLowerCase()
     return tabs.filter(tab => 
       tab.title?.toLowerCase().includes(query) ||
-      tab.url?.toLowerCase().includes(query)
+      tab.url?.toLowerCase().includes(query) ||
+      matchesTags(tab.id !== undefined ? tabTags[tab.id]?.tags : undefined, query)
     )
-  }, [tabs, searchQuery])
+  }, [tabs, tabTags, searchQuery])
 
   // Update selection when search changes
   React.useEffect(() => {
@@ -139,7 +147,9 @@ export function PopupApp() {
 
   const navItems = [
     { id: 'tabs', label: 'Tabs', icon: LayersIcon },
+    { id: 'workspaces', label: 'Workspaces', icon: StackIcon },
     { id: 'archived', label: 'Archive', icon: ArchiveIcon },
+    { id: 'duplicates', label: 'Duplicates', icon: CopyIcon },
     { id: 'automation', label: 'Rules', icon: TimerIcon },
     { id: 'analytics', label: 'Analytics', icon: BarChartIcon },
   ] as const
@@ -211,6 +221,7 @@ export function PopupApp() {
               <TabList 
                 tabs={tabs} 
                 groups={groups} 
+                tabTags={tabTags}
                 searchQuery={searchQuery}
                 onUpdate={loadTabs}
                 selectedTabId={selectedIndex >= 0 && selectedIndex < filteredTabs.length ? filteredTabs[selectedIndex]?.id : undefined}
@@ -218,6 +229,18 @@ export function PopupApp() {
             </motion.div>
           )}
 
+          {currentView === 'workspaces' && (
+            <motion.div
+              key="workspaces"
+              initial={{ opacity: 0, y: 10 }}
+              animate={{ opacity: 1, y: 0 }}
+              exit={{ opacity: 0, y: -10 }}
+              transition={{ duration: 0.2 }}
+            >
+              <WorkspaceView />
+            </motion.div>
+          )}
+
           {currentView === 'archived' && (
             <motion.div
               key="archived"
@@ -230,6 +253,18 @@ export function PopupApp() {
             </motion.div>
           )}
 
+          {currentView === 'duplicates' && (
+            <motion.div
+              key="duplicates"
+              initial={{ opacity: 0, y: 10 }}
+              animate={{ opacity: 1, y: 0 }}
+              exit={{ opacity: 0, y: -10 }}
+              transition={{ duration: 0.2 }}
+            >
+              <DuplicateReview onUpdate={loadTabs} />
+            </motion.div>
+          )}
+
           {currentView === 'automation' && (
             <motion.div
               key="automation"
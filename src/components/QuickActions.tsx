@@ -8,6 +8,8 @@ import {
 } from '@radix-ui/react-icons'
 import { motion } from 'motion/react'
 import { cn } from '@/utils/cn'
+import { storage } from '@/utils/storage'
+import { findDuplicatesWithSettings } from '@/utils/duplicates'
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip'
 
 interface QuickActionsProps {
@@ -17,24 +19,8 @@ interface QuickActionsProps {
 export function QuickActions({ onActionComplete }: QuickActionsProps) {
   async function closeDuplicates() {
     const tabs = await chrome.tabs.query({ currentWindow: true })
-    const urlMap = new Map<string, chrome.tabs.Tab[]>()
-    
-    tabs.forEach(tab => {
-      if (tab.url) {
-        const existing = urlMap.get(tab.url) || []
-        urlMap.set(tab.url, [...existing, tab])
-      }
-    })
-
-    const toClose: number[] = []
-    urlMap.forEach(tabsWithSameUrl => {
-      if (tabsWithSameUrl.length > 1) {
-        // Keep the first one, close the rest
-        tabsWithSameUrl.slice(1).forEach(tab => {
-          if (tab.id) toClose.push(tab.id)
-        })
-      }
-    })
+    const duplicates = await findDuplicatesWithSettings(tabs)
+    const toClose = duplicates.flatMap(set => set.close.map(tab => tab.id!))
 
     if (toClose.length > 0) {
       await chrome.tabs.remove(toClose)
@@ -65,11 +51,13 @@ export function QuickActions({ onActionComplete }: QuickActionsProps) {
       pinned: false
     })
 
+    const tabTags = await storage.getTabTags()
     const archived = tabs.map(tab => ({
       url: tab.url,
       title: tab.title,
       favIconUrl: tab.favIconUrl,
-      archivedAt: Date.now()
+      archivedAt: Date.now(),
+      tags: tab.id !== undefined ? tabTags[tab.id]?.tags : undefined
     }))
 
     const existing = await chrome.storage.local.get('archivedTabs')
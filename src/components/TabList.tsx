@@ -14,11 +14,28 @@ import {
 } from '@radix-ui/react-icons'
 import { cn } from '@/utils/cn'
 import { storage } from '@/utils/storage'
-import type { Workspace } from '@/types'
+import { matchesTags, tagsForRestoredTabs, withTags } from '@/utils/tags'
+import {
+  captureGroup,
+  chromeGroupIdOf,
+  createRestoredTabs,
+  findGroupInWorkspace,
+  keepSavedTitles,
+  primaryGroup,
+  restoreOptionsFromSettings,
+  savedGroupId,
+  savedGroupWorkspaces,
+  updateSavedGroup,
+  workspaceGroups,
+  workspaceTabs
+} from '@/utils/workspaces'
+import { TagList } from './TagList'
+import type { GroupMatchPrompt, TabTags, Workspace } from '@/types'
 
 interface TabListProps {
   tabs: chrome.tabs.Tab[]
   groups: chrome.tabGroups.TabGroup[]
+  tabTags: TabTags
   searchQuery: string
   onUpdate: () => void
   selectedTabId?: number
@@ -90,7 +107,7 @@ const waitForTabsToLoad = (tabIds: number[], maxWaitMs = 10000): Promise<chrome.
   });
 };
 
-export function TabList({ tabs, groups, searchQuery, onUpdate, selectedTabId }: TabListProps) {
+export function TabList({ tabs, groups, tabTags, searchQuery, onUpdate, selectedTabId }: TabListProps) {
   const [collapsedGroups, setCollapsedGroups] = useState<Set<number>>(() => {
     // Initialize with Chrome's current collapsed state to prevent animations
     const initial = new Set<number>()
@@ -104,6 +121,7 @@ export function TabList({ tabs, groups, searchQuery, onUpdate, selectedTabId }:
   const [savingGroup, setSavingGroup] = useState<number | null>(null)
   const [savedGroups, setSavedGroups] = useState<Map<number, string>>(new Map())
   const [savedGroupsData, setSavedGroupsData] = useState<Workspace[]>([])
+  const [matchPrompts, setMatchPrompts] = useState<GroupMatchPrompt[]>([])
   const [colorPickerOpen, setColorPickerOpen] = useState<number | null>(null)
   const [colorPickerPosition, setColorPickerPosition] = useState<{ top: number; left: number } | null>(null)
   const [restoringGroups, setRestoringGroups] = useState<Set<number>>(new Set())
@@ -156,7 +174,7 @@ export function TabList({ tabs, groups, searchQuery, onUpdate, selectedTabId }:
   }, [])
 
   async function loadSavedGroups() {
-    const workspaces = await storage.getWorkspaces()
+    const workspaces = savedGroupWorkspaces(await storage.getWorkspaces())
     setSavedGroupsData(workspaces)
     const savedMap = new Map<number, string>()
     
@@ -170,16 +188,10 @@ export function TabList({ tabs, groups, searchQuery, onUpdate, selectedTabId }:
       }
     })
     
-    // Map active groups to their saved workspaces
+    // Map active groups to their saved workspaces. Groups are only linked by
+    // id; the background re-links them by fingerprint after a restart.
     groups.forEach(group => {
-      // Prefer exact Chrome group ID match
-      let matchingWorkspace = workspaces.find(ws => 
-        ws.groups.some(g => g.id === `g_${group.id}`)
-      )
-      // Fallback: match by name when IDs aren't aligned yet
-      if (!matchingWorkspace) {
-        matchingWorkspace = workspaces.find(ws => ws.name === (group.title || 'Untitled Group'))
-      }
+      const matchingWorkspace = workspaces.find(ws => findGroupInWorkspace(ws, group.id))
       if (matchingWorkspace) {
         savedMap.set(group.id, matchingWorkspace.id)
       }
@@ -188,8 +200,8 @@ export function TabList({ tabs, groups, searchQuery, onUpdate, selectedTabId }:
     // Map saved-only groups (not currently active) for potential restoration
     // These should be collapsed by default
     workspaces.forEach(workspace => {
-      workspace.groups.forEach(group => {
-        const chromeGroupId = parseInt(group.id.replace('g_', ''))
+      workspaceGroups(workspace).forEach(group => {
+        const chromeGroupId = chromeGroupIdOf(group)
         if (!isNaN(chromeGroupId) && !groups.find(g => g.id === chromeGroupId)) {
           savedMap.set(chromeGroupId, workspace.id)
           // Saved groups (inactive) should be collapsed by default
@@ -200,46 +212,35 @@ export function TabList({ tabs, groups, searchQuery, onUpdate, selectedTabId }:
     
     setCollapsedGroups(newCollapsed)
     setSavedGroups(savedMap)
+    setMatchPrompts(await storage.getGroupMatchPrompts())
+  }
+
+  async function resolveGroupMatch(workspaceId: string, groupId: number | null) {
+    await chrome.runtime.sendMessage({ action: 'resolveGroupMatch', workspaceId, groupId })
+    await loadSavedGroups()
   }
   
   async function autoSaveActiveGroups() {
     // Don't auto-save on initial load
     if (groups.length === 0) return
     
-    const workspaces = await storage.getWorkspaces()
+    const [workspaces, currentTags] = await Promise.all([
+      storage.getWorkspaces(),
+      storage.getTabTags()
+    ])
+    const savedWorkspaces = savedGroupWorkspaces(workspaces)
     
-    // For each active group, find matching workspace by Chrome group ID
+    // For each active group, find matching saved group by Chrome group ID
     for (const group of groups) {
-      let existingWorkspace = null
-      
-      for (const workspace of workspaces) {
-        // Look for exact Chrome group ID match
-        const matchingGroup = workspace.groups.find(g => g.id === `g_${group.id}`)
-        
-        if (matchingGroup) {
-          existingWorkspace = workspace
-          break
-        }
-      }
+      const existingWorkspace = savedWorkspaces.find(ws => findGroupInWorkspace(ws, group.id))
       
       if (existingWorkspace) {
         // Update the existing workspace with current tab state and new name
         const tabs = await chrome.tabs.query({ currentWindow: true, groupId: group.id })
         
         const updatedWorkspace: Workspace = {
-          ...existingWorkspace,
-          name: group.title || 'Untitled Group',
-          groups: [{
-            ...existingWorkspace.groups[0],
-            id: `g_${group.id}`,
-            name: group.title || 'Untitled Group',
-            color: group.color,
-            collapsed: group.collapsed,
-            tabs: tabs.map(t => t.id!),
-            updatedAt: Date.now()
-          }],
-          tabs: tabs.map(t => ({ ...t })),
-          updatedAt: Date.now()
+          ...updateSavedGroup(existingWorkspace, savedGroupId(group.id), group, tabs, currentTags),
+          name: group.title || 'Untitled Group'
         }
         
         await storage.saveWorkspace(updatedWorkspace)
@@ -261,8 +262,8 @@ export function TabList({ tabs, groups, searchQuery, onUpdate, selectedTabId }:
       
       // Also add saved groups that are closed (not in Chrome) as collapsed by default
       savedGroupsData.forEach(workspace => {
-        workspace.groups.forEach(savedGroup => {
-          const groupId = parseInt(savedGroup.id.replace('g_', ''))
+        workspaceGroups(workspace).forEach(savedGroup => {
+          const groupId = chromeGroupIdOf(savedGroup)
           if (!isNaN(groupId) && !groups.find(g => g.id === groupId)) {
             // This saved group is not open in Chrome, so collapse it by default
             // But don't collapse if it's being restored
@@ -283,9 +284,10 @@ export function TabList({ tabs, groups, searchQuery, onUpdate, selectedTabId }:
     const query = searchQuery.toLowerCase()
     return tabs.filter(tab => 
       tab.title?.toLowerCase().includes(query) ||
-      tab.url?.toLowerCase().includes(query)
+      tab.url?.toLowerCase().includes(query) ||
+      matchesTags(tab.id !== undefined ? tabTags[tab.id]?.tags : undefined, query)
     )
-  }, [tabs, searchQuery])
+  }, [tabs, tabTags, searchQuery])
 
   const groupedTabs = useMemo(() => {
     const grouped = new Map<number | undefined, chrome.tabs.Tab[]>()
@@ -301,15 +303,11 @@ export function TabList({ tabs, groups, searchQuery, onUpdate, selectedTabId }:
     // Add saved groups that are not currently open (only when not searching)
     if (!searchQuery) {
       savedGroupsData.forEach(workspace => {
-        workspace.groups.forEach(group => {
-          // Check if there's an active group with the same name
-          const activeGroup = groups.find(g => g.title === group.name)
-          if (!activeGroup) {
-            // Only add if there's no active group with this name
-            const originalId = parseInt(group.id.replace('g_', ''))
-            if (!isNaN(originalId)) {
-              grouped.set(originalId, [])
-            }
+        workspaceGroups(workspace).forEach(group => {
+          // Only add if its group isn't open
+          const originalId = chromeGroupIdOf(group)
+          if (!isNaN(originalId) && !groups.some(g => g.id === originalId)) {
+            grouped.set(originalId, [])
           }
         })
       })
@@ -347,7 +345,8 @@ export function TabList({ tabs, groups, searchQuery, onUpdate, selectedTabId }:
         title: tab.title || 'Untitled',
         favIconUrl: tab.favIconUrl,
         archivedAt: Date.now(),
-        timeSpent: 0 // Could be enhanced with actual time tracking
+        timeSpent: 0, // Could be enhanced with actual time tracking
+        tags: tabTags[tab.id]?.tags
       }
       
       archivedTabs.unshift(archivedTab) // Add to beginning
@@ -395,9 +394,6 @@ export function TabList({ tabs, groups, searchQuery, onUpdate, selectedTabId }:
   async function toggleSaveGroup(groupId: number, groupName: string) {
     setSavingGroup(groupId)
     
-    const workspaces = await storage.getWorkspaces()
-    const existingWorkspaceIndex = workspaces.findIndex(ws => ws.name === groupName)
-    
     if (savedGroups.has(groupId)) {
       // Unsave the group
       const workspaceId = savedGroups.get(groupId)
@@ -415,27 +411,26 @@ export function TabList({ tabs, groups, searchQuery, onUpdate, selectedTabId }:
       }
     } else {
       // Save the group
-      const tabs = await chrome.tabs.query({ currentWindow: true, groupId })
+      // A group that isn't saved yet gets its own saved group, even when
+      // another saved group has the same name
       const group = await chrome.tabGroups.get(groupId)
+      const captured = await captureGroup(group, tabTags)
+      const savedGroup = {
+        ...captured.groups[0],
+        name: group.title || groupName,
+        collapsed: false
+      }
       
       const workspace: Workspace = {
-        id: existingWorkspaceIndex >= 0 ? workspaces[existingWorkspaceIndex].id : `ws_${Date.now()}`,
+        id: `ws_${Date.now()}`,
         name: group.title || groupName,
-        groups: [{
-          id: `g_${group.id}`,
-          name: group.title || groupName,
-          color: group.color,
-          collapsed: false,
-          tabs: tabs.map(t => t.id!),
-          createdAt: existingWorkspaceIndex >= 0 ? workspaces[existingWorkspaceIndex].groups[0].createdAt : Date.now(),
-          updatedAt: Date.now()
-        }],
-        tabs: tabs.map(t => ({ ...t })),
-        createdAt: existingWorkspaceIndex >= 0 ? workspaces[existingWorkspaceIndex].createdAt : Date.now(),
+        kind: 'group',
+        windows: [{ ...captured, groups: [savedGroup] }],
+        createdAt: Date.now(),
         updatedAt: Date.now()
       }
 
-      await storage.saveOrUpdateWorkspaceByName(workspace)
+      await storage.saveWorkspace(workspace)
     }
     
     await loadSavedGroups() // Reload saved groups to update UI
@@ -443,7 +438,9 @@ export function TabList({ tabs, groups, searchQuery, onUpdate, selectedTabId }:
   }
 
   async function updateGroupColor(groupId: number, color: chrome.tabGroups.ColorEnum) {
-    await chrome.tabGroups.update(groupId, { color })
+    const group = await chrome.tabGroups.update(groupId, { color })
+    // Rules reuse the color the next time they create a group with this name
+    await storage.setGroupColor(group?.title || '', color)
     onUpdate()
   }
 
@@ -461,6 +458,40 @@ export function TabList({ tabs, groups, searchQuery, onUpdate, selectedTabId }:
 
   return (
     <div className="space-y-4">
+      {/* Saved groups that look like more than one open group after a restart */}
+      {!searchQuery && matchPrompts.map(prompt => {
+        const workspace = savedGroupsData.find(ws => ws.id === prompt.workspaceId)
+        if (!workspace) return null
+        return (
+          <div key={prompt.workspaceId} className="p-3 rounded-lg glass space-y-2">
+            <p className="text-sm">
+              Which open group is your saved group <span className="font-medium">{workspace.name}</span>?
+            </p>
+            <div className="flex flex-wrap gap-2">
+              {prompt.candidates.map(candidate => (
+                <button
+                  key={candidate.groupId}
+                  onClick={() => resolveGroupMatch(prompt.workspaceId, candidate.groupId)}
+                  className="flex items-center gap-1 px-2 py-1 text-xs rounded-md hover:bg-accent"
+                >
+                  <span
+                    className="w-2 h-2 rounded-full flex-shrink-0"
+                    style={{ backgroundColor: `var(--color-${candidate.color})` }}
+                  />
+                  {candidate.title} ({candidate.tabCount} tabs)
+                </button>
+              ))}
+              <button
+                onClick={() => resolveGroupMatch(prompt.workspaceId, null)}
+                className="px-2 py-1 text-xs rounded-md text-muted-foreground hover:bg-accent"
+              >
+                None of these
+              </button>
+            </div>
+          </div>
+        )
+      })}
+
       {Array.from(groupedTabs.entries()).map(([groupId, groupTabs], groupIndex) => {
         const group = getGroupInfo(groupId)
         // Expand groups when searching and they have matching tabs
@@ -468,16 +499,14 @@ export function TabList({ tabs, groups, searchQuery, onUpdate, selectedTabId }:
         const isCollapsed = groupId && collapsedGroups.has(groupId) && (!searchQuery || groupTabs.length === 0) && !restoringGroups.has(groupId)
         
         // Get saved group info if this is a saved group
-        const savedWorkspace = group 
-          ? savedGroupsData.find(ws => ws.name === group.title)
-          : savedGroupsData.find(ws => 
-              ws.groups.some(g => parseInt(g.id.replace('g_', '')) === groupId)
-            )
-        const savedGroup = savedWorkspace?.groups[0]
+        const savedWorkspace = groupId !== undefined
+          ? savedGroupsData.find(ws => findGroupInWorkspace(ws, groupId))
+          : undefined
+        const savedGroup = savedWorkspace && primaryGroup(savedWorkspace)
         
         // Show saved groups even if they're closed in Chrome
-        if (!group && savedGroup) {
-          const savedTabs = savedWorkspace?.tabs || []
+        if (!group && savedWorkspace && savedGroup) {
+          const savedTabs = workspaceTabs(savedWorkspace)
           
           const groupAnimationDuration = Math.min(0.15 + (groupIndex * 0.05), 0.3)
           
@@ -536,9 +565,10 @@ export function TabList({ tabs, groups, searchQuery, onUpdate, selectedTabId }:
                       })
                       
                       try {
-                        // Restore the group
-                        const tabIds = await Promise.all(
-                          savedTabs.map(tab => chrome.tabs.create({ url: tab.url, active: false }))
+                        // Restore the group, leaving tabs past the eager-load cap unloaded
+                        const tabIds = await createRestoredTabs(
+                          savedTabs.map(tab => ({ url: tab.url })),
+                          restoreOptionsFromSettings(await storage.getSettings())
                         )
                         
                         if (tabIds.length > 0 && tabIds[0].id) {
@@ -549,21 +579,29 @@ export function TabList({ tabs, groups, searchQuery, onUpdate, selectedTabId }:
                             collapsed: false
                           })
                           
-                         // Wait for all tabs to fully load
-                         const loadedTabs = await waitForTabsToLoad(tabIds.map(t => t.id!))
+                          // Carry saved tags over to the recreated tabs
+                          await storage.mergeTabTags(tagsForRestoredTabs(
+                            savedTabs.map((source, i) => ({ source, tab: tabIds[i] }))
+                          ))
+
+                         // Wait for the tabs that are loading; unloaded ones keep their saved titles
+                         await waitForTabsToLoad(tabIds.filter(t => !t.discarded).map(t => t.id!))
+                         const loadedTabs = await Promise.all(tabIds.map(t => chrome.tabs.get(t.id!)))
                          
                           // Update the existing workspace with the new group ID and loaded tab info
                          const updatedWorkspace: Workspace = {
                            ...savedWorkspace,
                            id: savedWorkspace.id, // Ensure we preserve the workspace ID
                            name: savedGroup.name, // Ensure we preserve the name
-                           groups: [{
-                             ...savedGroup,
-                             id: `g_${newGroupId}`,
-                             tabs: loadedTabs.map(t => t.id!),
-                             updatedAt: Date.now()
+                           windows: [{
+                             tabs: keepSavedTitles(withTags(loadedTabs, await storage.getTabTags()), savedTabs),
+                             groups: [{
+                               ...savedGroup,
+                               id: savedGroupId(newGroupId),
+                               tabs: loadedTabs.map(t => t.id!),
+                               updatedAt: Date.now()
+                             }]
                            }],
-                           tabs: loadedTabs,
                            updatedAt: Date.now()
                          }
                          
@@ -663,6 +701,7 @@ export function TabList({ tabs, groups, searchQuery, onUpdate, selectedTabId }:
                                 {new URL(tab.url).hostname}
                               </p>
                             )}
+                            <TagList tags={tab.tags} />
                           </div>
                         </div>
                       ))}
@@ -875,6 +914,7 @@ export function TabList({ tabs, groups, searchQuery, onUpdate, selectedTabId }:
                         {new URL(tab.url).hostname}
                       </p>
                     )}
+                    {tab.id !== undefined && <TagList tags={tabTags[tab.id]?.tags} />}
                   </div>
                   
                   {/* Actions - overlay on the right */}
@@ -5,23 +5,73 @@ import {
   TrashIcon, 
   Pencil1Icon,
   Cross2Icon,
-  MagicWandIcon
+  MagicWandIcon,
+  EyeOpenIcon,
+  ActivityLogIcon,
+  DragHandleDots2Icon,
+  ExclamationTriangleIcon,
+  PlayIcon,
+  DownloadIcon,
+  UploadIcon
 } from '@radix-ui/react-icons'
 import { storage } from '@/utils/storage'
-import type { TabRule, RuleCondition, RuleAction } from '@/types'
+import {
+  conditionTakesValue,
+  findRuleConflicts,
+  isConditionGroup,
+  matchesRule,
+  sortRulesByPriority,
+  validatePattern,
+  type RuleConflict
+} from '@/utils/rules'
+import { combineRules, createRulePack, parseRulePack } from '@/utils/rulePacks'
+import { formatTimeAgo } from '@/utils/format'
+import { GROUP_COLORS, isGroupColor } from '@/utils/groupColors'
+import type {
+  TabRule,
+  RuleCondition,
+  RuleAction,
+  RuleLogEntry,
+  RuleStats,
+  RuleRunResult,
+  RuleScope,
+  ConditionGroup,
+  ConditionNode,
+  Workspace
+} from '@/types'
 import { cn } from '@/utils/cn'
 
 export function TabRules() {
   const [rules, setRules] = useState<TabRule[]>([])
   const [editingRule, setEditingRule] = useState<TabRule | null>(null)
   const [isCreating, setIsCreating] = useState(false)
+  const [ruleStats, setRuleStats] = useState<Record<string, RuleStats>>({})
+  const [ruleLog, setRuleLog] = useState<RuleLogEntry[]>([])
+  const [showLog, setShowLog] = useState(false)
+  const [conflicts, setConflicts] = useState<RuleConflict[]>([])
+  const [draggedRuleId, setDraggedRuleId] = useState<string | null>(null)
+  const [runScope, setRunScope] = useState<'window' | 'all'>('window')
+  const [isRunning, setIsRunning] = useState(false)
+  const [runStatus, setRunStatus] = useState<string | null>(null)
+  const [showExport, setShowExport] = useState(false)
+  const [pendingImport, setPendingImport] = useState<TabRule[] | null>(null)
+  const [importStatus, setImportStatus] = useState<string | null>(null)
+  const [workspaces, setWorkspaces] = useState<Workspace[]>([])
 
   useEffect(() => {
     loadRules()
+    loadRuleLog()
+    loadWorkspaces()
     const handler = (message: any) => {
       if (message?.action === 'rulesUpdated') {
         loadRules()
       }
+      if (message?.action === 'workspacesUpdated') {
+        loadWorkspaces()
+      }
+      if (message?.action === 'ruleLogUpdated') {
+        loadRuleLog()
+      }
     }
     chrome.runtime.onMessage.addListener(handler)
     return () => chrome.runtime.onMessage.removeListener(handler)
@@ -29,7 +79,139 @@ export function TabRules() {
 
   async function loadRules() {
     const r = await storage.getTabRules()
-    setRules(r.sort((a, b) => (b.updatedAt || b.createdAt) - (a.updatedAt || a.createdAt)))
+    setRules(sortRulesByPriority(r))
+    loadConflicts(r)
+  }
+
+  async function loadConflicts(currentRules: TabRule[]) {
+    const [tabs, activity] = await Promise.all([
+      chrome.tabs.query({}),
+      chrome.runtime.sendMessage({ action: 'getTabActivity' }).catch(() => null)
+    ])
+    const lastAccessed: Record<number, number> = activity?.lastAccessed || {}
+    setConflicts(await findRuleConflicts(currentRules, tabs, { lastAccessed: (tabId) => lastAccessed[tabId] }))
+  }
+
+  // Reorder locally while dragging; the new order is saved when the drag ends
+  function moveRule(draggedId: string, targetId: string) {
+    if (draggedId === targetId) return
+    setRules(prev => {
+      const from = prev.findIndex(r => r.id === draggedId)
+      const to = prev.findIndex(r => r.id === targetId)
+      if (from < 0 || to < 0) return prev
+      const next = [...prev]
+      const [moved] = next.splice(from, 1)
+      next.splice(to, 0, moved)
+      return next
+    })
+  }
+
+  async function savePriorities() {
+    setDraggedRuleId(null)
+    const order = new Map(rules.map((r, i) => [r.id, i]))
+    const stored = await storage.getTabRules()
+    await storage.saveTabRules(stored.map(r => ({ ...r, priority: order.get(r.id) ?? r.priority })))
+    await loadRules()
+  }
+
+  async function loadWorkspaces() {
+    setWorkspaces(await storage.getWorkspaces())
+  }
+
+  async function loadRuleLog() {
+    const [log, stats] = await Promise.all([storage.getRuleLog(), storage.getRuleStats()])
+    setRuleLog(log)
+    setRuleStats(stats)
+  }
+
+  async function clearRuleLog() {
+    await storage.clearRuleLog()
+    await loadRuleLog()
+  }
+
+  // Run rules against the tabs that are already open. Matching happens in the
+  // background first so closing or archiving tabs can be confirmed.
+  async function runRules(ruleIds?: string[]) {
+    setIsRunning(true)
+    setRunStatus(null)
+    try {
+      const windowId = runScope === 'window' ? (await chrome.windows.getCurrent()).id : undefined
+      const request = { action: 'runRules', ruleIds, windowId }
+      const plan: RuleRunResult | null = await chrome.runtime.sendMessage({ ...request, dryRun: true })
+      if (!plan) {
+        setRunStatus('Failed to run rules')
+        return
+      }
+      if (plan.affectedTabs === 0) {
+        setRunStatus('No open tabs match')
+        return
+      }
+      if (plan.removedTabs > 0 &&
+          !confirm(`This will close or archive ${plan.removedTabs} ${plan.removedTabs === 1 ? 'tab' : 'tabs'}. Continue?`)) {
+        return
+      }
+
+      const result: RuleRunResult | null = await chrome.runtime.sendMessage(request)
+      if (!result) {
+        setRunStatus('Failed to run rules')
+        return
+      }
+      setRunStatus(`Affected ${result.affectedTabs} ${result.affectedTabs === 1 ? 'tab' : 'tabs'}` +
+        (result.removedTabs > 0 ? ` (${result.removedTabs} closed or archived)` : ''))
+    } finally {
+      setIsRunning(false)
+    }
+  }
+
+  function exportRules(ruleIds: string[]) {
+    const pack = createRulePack(rules.filter(r => ruleIds.includes(r.id)))
+    const blob = new Blob([JSON.stringify(pack, null, 2)], { type: 'application/json' })
+    const url = URL.createObjectURL(blob)
+    const a = document.createElement('a')
+    a.href = url
+    a.download = `tab-flow-rules-${new Date().toISOString().split('T')[0]}.json`
+    a.click()
+    URL.revokeObjectURL(url)
+    setShowExport(false)
+  }
+
+  function chooseImportFile() {
+    const input = document.createElement('input')
+    input.type = 'file'
+    input.accept = '.json'
+    input.onchange = async (e) => {
+      const file = (e.target as HTMLInputElement).files?.[0]
+      if (!file) return
+
+      setImportStatus(null)
+      try {
+        setPendingImport(parseRulePack(await file.text()))
+      } catch (error) {
+        setPendingImport(null)
+        setImportStatus(error instanceof Error ? error.message : 'Failed to read rule pack')
+      }
+    }
+    input.click()
+  }
+
+  async function importRules(mode: 'merge' | 'replace') {
+    if (!pendingImport) return
+    if (mode === 'replace' && rules.length > 0 &&
+        !confirm(`Replace all ${rules.length} existing ${rules.length === 1 ? 'rule' : 'rules'}? This cannot be undone.`)) {
+      return
+    }
+
+    try {
+      const stored = await storage.getTabRules()
+      await storage.saveTabRules(combineRules(stored, pendingImport, mode))
+      setImportStatus(`Imported ${pendingImport.length} ${pendingImport.length === 1 ? 'rule' : 'rules'}`)
+      setPendingImport(null)
+      await loadRules()
+    } catch (error) {
+      // Most likely the sync storage quota
+      console.error('Failed to import rules:', error)
+      setImportStatus('Failed to save imported rules. The pack may be too large to sync.')
+    }
   }
 
   async function saveRule(rule: TabRule) {
@@ -58,11 +240,16 @@ export function TabRules() {
       id: `rule_${now}`,
       name: 'New Rule',
       enabled: true,
-      conditions: [{
-        type: 'url',
-        operator: 'contains',
-        value: ''
-      }],
+      priority: rules.reduce((max, r) => Math.max(max, (r.priority ?? -1) + 1), rules.length),
+      conditions: {
+        type: 'group',
+        operator: 'AND',
+        children: [{
+          type: 'url',
+          operator: 'contains',
+          value: ''
+        }]
+      },
       actions: [{
         type: 'group',
         value: 'New Group'
@@ -85,20 +272,129 @@ export function TabRules() {
             Automatically organize tabs based on conditions
           </p>
         </div>
-        {!isCreating && (
+        <div className="flex items-center gap-2">
+          <select
+            value={runScope}
+            onChange={(e) => setRunScope(e.target.value as 'window' | 'all')}
+            className="px-2 pr-8 py-1 rounded border bg-background text-xs"
+            aria-label="Run rules in"
+          >
+            <option value="window">This window</option>
+            <option value="all">All windows</option>
+          </select>
           <button
-            onClick={() => {
-              setEditingRule(createNewRule())
-              setIsCreating(true)
-            }}
-            className="p-2 bg-primary text-primary-foreground rounded-md hover:bg-primary/90"
-            aria-label="Create new rule"
+            onClick={() => runRules()}
+            disabled={isRunning || !rules.some(r => r.enabled && !r.blockedReason)}
+            className="p-2 rounded-md hover:bg-accent disabled:opacity-50"
+            aria-label="Run all rules"
+            title="Run all rules on open tabs"
           >
-            <PlusIcon className="w-4 h-4" />
+            <PlayIcon className="w-4 h-4" />
           </button>
-        )}
+          <button
+            onClick={() => setShowExport(!showExport)}
+            disabled={rules.length === 0}
+            className={cn('p-2 rounded-md hover:bg-accent disabled:opacity-50', showExport && 'bg-accent')}
+            aria-label="Export rules"
+          >
+            <DownloadIcon className="w-4 h-4" />
+          </button>
+          <button
+            onClick={chooseImportFile}
+            className="p-2 rounded-md hover:bg-accent"
+            aria-label="Import rules"
+          >
+            <UploadIcon className="w-4 h-4" />
+          </button>
+          <button
+            onClick={() => setShowLog(!showLog)}
+            className={cn('p-2 rounded-md hover:bg-accent', showLog && 'bg-accent')}
+            aria-label="Show rule log"
+          >
+            <ActivityLogIcon className="w-4 h-4" />
+          </button>
+          {!isCreating && (
+            <button
+              onClick={() => {
+                setEditingRule(createNewRule())
+                setIsCreating(true)
+              }}
+              className="p-2 bg-primary text-primary-foreground rounded-md hover:bg-primary/90"
+              aria-label="Create new rule"
+            >
+              <PlusIcon className="w-4 h-4" />
+            </button>
+          )}
+        </div>
       </div>
 
+      {runStatus && (
+        <p className="text-xs text-muted-foreground">{runStatus}</p>
+      )}
+
+      {/* Rule Packs */}
+      <AnimatePresence>
+        {showExport && (
+          <motion.div
+            initial={{ opacity: 0, y: -10 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -10 }}
+          >
+            <ExportRulesPanel
+              rules={rules}
+              onExport={exportRules}
+              onCancel={() => setShowExport(false)}
+            />
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      {pendingImport && (
+        <div className="p-3 rounded-lg glass space-y-2">
+          <p className="text-sm">
+            Import {pendingImport.length} {pendingImport.length === 1 ? 'rule' : 'rules'}:{' '}
+            <span className="text-muted-foreground">{pendingImport.map(r => r.name).join(', ')}</span>
+          </p>
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={() => setPendingImport(null)}
+              className="px-3 py-1.5 text-sm rounded-md hover:bg-accent"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={() => importRules('replace')}
+              className="px-3 py-1.5 text-sm rounded-md border hover:bg-accent"
+            >
+              Replace existing
+            </button>
+            <button
+              onClick={() => importRules('merge')}
+              className="px-3 py-1.5 text-sm bg-primary text-primary-foreground rounded-md hover:bg-primary/90"
+            >
+              Merge
+            </button>
+          </div>
+        </div>
+      )}
+
+      {importStatus && (
+        <p className="text-xs text-muted-foreground">{importStatus}</p>
+      )}
+
+      {/* Execution Log */}
+      <AnimatePresence>
+        {showLog && (
+          <motion.div
+            initial={{ opacity: 0, y: -10 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -10 }}
+          >
+            <RuleLog entries={ruleLog} onClear={clearRuleLog} />
+          </motion.div>
+        )}
+      </AnimatePresence>
+
       {/* New Rule Form - Always at top when creating */}
       <AnimatePresence>
         {isCreating && editingRule && (
@@ -111,6 +407,7 @@ export function TabRules() {
             <RuleEditor
               rule={editingRule}
               onChange={setEditingRule}
+              workspaces={workspaces}
               onSave={() => saveRule(editingRule)}
               onCancel={() => {
                 setEditingRule(null)
@@ -121,56 +418,96 @@ export function TabRules() {
         )}
       </AnimatePresence>
 
+      {/* Conflicts */}
+      {conflicts.length > 0 && (
+        <div className="p-3 rounded-lg bg-amber-100 text-amber-900 border border-amber-200 text-xs space-y-1">
+          {conflicts.map(conflict => {
+            const [a, b] = conflict.ruleIds.map(id => rules.find(r => r.id === id)?.name || 'Unknown rule')
+            return (
+              <p key={conflict.ruleIds.join(':')} className="flex items-start gap-1.5">
+                <ExclamationTriangleIcon className="w-3 h-3 mt-0.5 flex-shrink-0" />
+                <span>
+                  "{a}" and "{b}" both match {conflict.tabCount} open {conflict.tabCount === 1 ? 'tab' : 'tabs'} but
+                  group into "{conflict.groups[0]}" and "{conflict.groups[1]}". Reorder them or enable "Stop further rules".
+                </span>
+              </p>
+            )
+          })}
+        </div>
+      )}
+
       {/* Rules List */}
       <div className="space-y-2">
         <AnimatePresence>
-          {rules.map((rule) => (
+          {rules.map((rule, index) => (
             <motion.div
               key={rule.id}
+              layout
               initial={{ opacity: 0, y: 10 }}
               animate={{ opacity: 1, y: 0 }}
               exit={{ opacity: 0, x: -10 }}
               className={cn(
                 'p-4 rounded-lg glass transition-all duration-200',
-                !rule.enabled && 'opacity-60'
+                !rule.enabled && 'opacity-60',
+                draggedRuleId === rule.id && 'ring-2 ring-primary'
               )}
             >
-              <AnimatePresence mode="wait">
-                {editingRule?.id === rule.id ? (
-                  <motion.div
-                    key="editor"
-                    initial={{ opacity: 0 }}
-                    animate={{ opacity: 1 }}
-                    exit={{ opacity: 0 }}
-                    transition={{ duration: 0.15 }}
-                  >
-                    <RuleEditor
-                      rule={editingRule}
-                      onChange={setEditingRule}
-                      onSave={() => saveRule(editingRule)}
-                      onCancel={() => {
-                        setEditingRule(null)
-                        setIsCreating(false)
-                      }}
-                    />
-                  </motion.div>
-                ) : (
-                  <motion.div
-                    key="display"
-                    initial={{ opacity: 0 }}
-                    animate={{ opacity: 1 }}
-                    exit={{ opacity: 0 }}
-                    transition={{ duration: 0.15 }}
-                  >
-                    <RuleDisplay
-                      rule={rule}
-                      onEdit={() => setEditingRule(rule)}
-                      onDelete={() => deleteRule(rule.id)}
-                      onToggle={() => toggleRule(rule)}
-                    />
-                  </motion.div>
-                )}
-              </AnimatePresence>
+              <div
+                draggable={editingRule?.id !== rule.id}
+                onDragStart={(e) => {
+                  e.dataTransfer.effectAllowed = 'move'
+                  setDraggedRuleId(rule.id)
+                }}
+                onDragOver={(e) => {
+                  if (!draggedRuleId) return
+                  e.preventDefault()
+                  moveRule(draggedRuleId, rule.id)
+                }}
+                onDragEnd={savePriorities}
+              >
+                <AnimatePresence mode="wait">
+                  {editingRule?.id === rule.id ? (
+                    <motion.div
+                      key="editor"
+                      initial={{ opacity: 0 }}
+                      animate={{ opacity: 1 }}
+                      exit={{ opacity: 0 }}
+                      transition={{ duration: 0.15 }}
+                    >
+                      <RuleEditor
+                        rule={editingRule}
+                        onChange={setEditingRule}
+                        workspaces={workspaces}
+                        onSave={() => saveRule(editingRule)}
+                        onCancel={() => {
+                          setEditingRule(null)
+                          setIsCreating(false)
+                        }}
+                      />
+                    </motion.div>
+                  ) : (
+                    <motion.div
+                      key="display"
+                      initial={{ opacity: 0 }}
+                      animate={{ opacity: 1 }}
+                      exit={{ opacity: 0 }}
+                      transition={{ duration: 0.15 }}
+                    >
+                      <RuleDisplay
+                        rule={rule}
+                        position={index + 1}
+                        stats={ruleStats[rule.id]}
+                        scopeLabel={describeScope(rule, workspaces)}
+                        onEdit={() => setEditingRule(rule)}
+                        onDelete={() => deleteRule(rule.id)}
+                        onToggle={() => toggleRule(rule)}
+                        onRun={() => runRules([rule.id])}
+                        isRunning={isRunning}
+                      />
+                    </motion.div>
+                  )}
+                </AnimatePresence>
+              </div>
             </motion.div>
           ))}
         </AnimatePresence>
@@ -189,18 +526,34 @@ export function TabRules() {
 
 interface RuleDisplayProps {
   rule: TabRule
+  position: number
+  stats?: RuleStats
+  scopeLabel: string | null
   onEdit: () => void
   onDelete: () => void
   onToggle: () => void
+  onRun: () => void
+  isRunning: boolean
 }
 
-function RuleDisplay({ rule, onEdit, onDelete, onToggle }: RuleDisplayProps) {
+function RuleDisplay({ rule, position, stats, scopeLabel, onEdit, onDelete, onToggle, onRun, isRunning }: RuleDisplayProps) {
   return (
     <div className="space-y-3">
       <div className="flex items-start justify-between">
+        <DragHandleDots2Icon
+          className="w-4 h-4 mt-0.5 mr-2 flex-shrink-0 text-muted-foreground cursor-grab"
+          aria-label="Drag to change priority"
+        />
         <div className="flex-1">
           <h4 className="font-medium flex items-center gap-2">
+            <span className="text-xs text-muted-foreground">#{position}</span>
             {rule.name}
+            {rule.stopProcessing && (
+              <span className="text-[10px] px-1.5 py-0.5 rounded bg-accent text-accent-foreground">Stops</span>
+            )}
+            {scopeLabel && (
+              <span className="text-[10px] px-1.5 py-0.5 rounded bg-accent text-accent-foreground">{scopeLabel}</span>
+            )}
             {rule.blockedReason && (
               <span className="text-[10px] px-1.5 py-0.5 rounded bg-amber-100 text-amber-900 border border-amber-200">Blocked</span>
             )}
@@ -208,25 +561,25 @@ function RuleDisplay({ rule, onEdit, onDelete, onToggle }: RuleDisplayProps) {
           <div className="mt-2 space-y-1">
             <p className="text-sm text-muted-foreground">
               <span className="font-medium">When:</span>{' '}
-              {rule.conditions.map((c, i) => (
-                <span key={i}>
-                  {i > 0 && ` ${rule.conditionOperator || 'AND'} `}
-                  {c.type} {c.operator} "{c.value}"{c.caseSensitive && ' (case sensitive)'}
-                </span>
-              ))}
+              {describeGroup(rule.conditions, true)}
             </p>
             <p className="text-sm text-muted-foreground">
               <span className="font-medium">Then:</span>{' '}
               {rule.actions.map((a, i) => (
                 <span key={i}>
                   {i > 0 && ', '}
-                  {a.type === 'group' ? `Add to group "${a.value}"` : a.type}
+                  {describeAction(a)}
                 </span>
               ))}
             </p>
             {rule.blockedReason && (
               <p className="text-xs text-amber-600 mt-1">{rule.blockedReason}</p>
             )}
+            <p className="text-xs text-muted-foreground">
+              {stats
+                ? `Fired ${stats.hitCount} ${stats.hitCount === 1 ? 'time' : 'times'} · last ${formatTimeAgo(stats.lastFiredAt)}`
+                : 'Never fired'}
+            </p>
           </div>
         </div>
         <div className="flex items-center gap-2">
@@ -247,6 +600,14 @@ function RuleDisplay({ rule, onEdit, onDelete, onToggle }: RuleDisplayProps) {
               )}
             />
           </button>
+          <button
+            onClick={onRun}
+            disabled={isRunning || !rule.enabled || !!rule.blockedReason}
+            className="p-1.5 rounded hover:bg-accent disabled:opacity-50"
+            title="Run now on open tabs"
+          >
+            <PlayIcon className="w-3 h-3" />
+          </button>
           <button
             onClick={onEdit}
             className="p-1.5 rounded hover:bg-accent"
@@ -265,23 +626,395 @@ function RuleDisplay({ rule, onEdit, onDelete, onToggle }: RuleDisplayProps) {
   )
 }
 
+interface ExportRulesPanelProps {
+  rules: TabRule[]
+  onExport: (ruleIds: string[]) => void
+  onCancel: () => void
+}
+
+function ExportRulesPanel({ rules, onExport, onCancel }: ExportRulesPanelProps) {
+  const [selected, setSelected] = useState<Set<string>>(() => new Set(rules.map(r => r.id)))
+
+  function toggle(id: string) {
+    setSelected(prev => {
+      const next = new Set(prev)
+      if (next.has(id)) {
+        next.delete(id)
+      } else {
+        next.add(id)
+      }
+      return next
+    })
+  }
+
+  return (
+    <div className="p-3 rounded-lg glass space-y-2">
+      <span className="text-sm font-medium">Export rules</span>
+      <div className="max-h-48 overflow-y-auto space-y-1">
+        {rules.map(rule => (
+          <label key={rule.id} className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={selected.has(rule.id)}
+              onChange={() => toggle(rule.id)}
+              className="rounded border-gray-300"
+            />
+            <span className="truncate">{rule.name}</span>
+          </label>
+        ))}
+      </div>
+      <div className="flex justify-end gap-2">
+        <button
+          onClick={onCancel}
+          className="px-3 py-1.5 text-sm rounded-md hover:bg-accent"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={() => onExport(rules.filter(r => selected.has(r.id)).map(r => r.id))}
+          disabled={selected.size === 0}
+          className="px-3 py-1.5 text-sm bg-primary text-primary-foreground rounded-md hover:bg-primary/90 disabled:opacity-50"
+        >
+          Export {selected.size} {selected.size === 1 ? 'rule' : 'rules'}
+        </button>
+      </div>
+    </div>
+  )
+}
+
+interface RuleLogProps {
+  entries: RuleLogEntry[]
+  onClear: () => void
+}
+
+function RuleLog({ entries, onClear }: RuleLogProps) {
+  return (
+    <div className="p-3 rounded-lg glass space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium">Execution log</span>
+        {entries.length > 0 && (
+          <button onClick={onClear} className="text-xs text-muted-foreground hover:underline">
+            Clear
+          </button>
+        )}
+      </div>
+      {entries.length === 0 ? (
+        <p className="text-xs text-muted-foreground">No rules have fired yet</p>
+      ) : (
+        <div className="max-h-64 overflow-y-auto space-y-2">
+          {entries.map(entry => (
+            <div key={entry.id} className="text-xs space-y-0.5">
+              <div className="flex items-center gap-2">
+                <span
+                  className={cn(
+                    'w-1.5 h-1.5 rounded-full flex-shrink-0',
+                    entry.outcome === 'success' ? 'bg-green-500' : 'bg-destructive'
+                  )}
+                />
+                <span className="font-medium truncate">{entry.ruleName}</span>
+                <span className="text-muted-foreground ml-auto flex-shrink-0">
+                  {formatTimeAgo(entry.timestamp)}
+                </span>
+              </div>
+              <p className="text-muted-foreground truncate pl-3.5">
+                {entry.tabTitle || entry.tabUrl || 'Unknown tab'}
+              </p>
+              {entry.actions.length > 0 && (
+                <p className="text-muted-foreground pl-3.5">
+                  {entry.actions.map(describeAction).join(', ')}
+                </p>
+              )}
+              {entry.error && (
+                <p className="text-destructive pl-3.5">{entry.error}</p>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+const MAX_GROUP_DEPTH = 3
+
+const GROUP_OPERATOR_LABELS: Record<ConditionGroup['operator'], string> = {
+  AND: 'All of (AND)',
+  OR: 'Any of (OR)',
+  NOT: 'None of (NOT)'
+}
+
+interface ConditionGroupEditorProps {
+  group: ConditionGroup
+  onChange: (group: ConditionGroup) => void
+  onRemove?: () => void
+  depth: number
+}
+
+function ConditionGroupEditor({ group, onChange, onRemove, depth }: ConditionGroupEditorProps) {
+  function updateChild(index: number, child: ConditionNode) {
+    const children = [...group.children]
+    children[index] = child
+    onChange({ ...group, children })
+  }
+
+  function removeChild(index: number) {
+    onChange({ ...group, children: group.children.filter((_, i) => i !== index) })
+  }
+
+  function addCondition() {
+    onChange({ ...group, children: [...group.children, { type: 'url', operator: 'contains', value: '' }] })
+  }
+
+  function addGroup() {
+    onChange({
+      ...group,
+      children: [...group.children, {
+        type: 'group',
+        operator: group.operator === 'AND' ? 'OR' : 'AND',
+        children: [{ type: 'url', operator: 'contains', value: '' }]
+      }]
+    })
+  }
+
+  // NOT reads as "none of", so its children are joined with OR
+  const joiner = group.operator === 'AND' ? 'AND' : 'OR'
+
+  return (
+    <div className={cn('space-y-2', depth > 0 && 'p-2 rounded-md border border-dashed')}>
+      {/* Operator selector - only show if it matters */}
+      {(group.children.length > 1 || group.operator === 'NOT' || depth > 0) && (
+        <div className="flex items-center gap-2">
+          <span className="text-sm text-muted-foreground">Match</span>
+          <select
+            value={group.operator}
+            onChange={(e) => onChange({ ...group, operator: e.target.value as ConditionGroup['operator'] })}
+            className="px-2 pr-8 py-1 rounded border bg-background text-sm"
+          >
+            {(Object.keys(GROUP_OPERATOR_LABELS) as ConditionGroup['operator'][]).map(op => (
+              <option key={op} value={op}>{GROUP_OPERATOR_LABELS[op]}</option>
+            ))}
+          </select>
+          {onRemove && (
+            <button
+              onClick={onRemove}
+              className="p-1 rounded hover:bg-destructive hover:text-destructive-foreground ml-auto"
+              aria-label="Remove group"
+            >
+              <Cross2Icon className="w-3 h-3" />
+            </button>
+          )}
+        </div>
+      )}
+
+      {group.children.map((child, index) => (
+        <React.Fragment key={index}>
+          {index > 0 && (
+            <div className="text-center text-xs text-muted-foreground py-1">
+              {joiner}
+            </div>
+          )}
+          {isConditionGroup(child) ? (
+            <ConditionGroupEditor
+              group={child}
+              onChange={(updated) => updateChild(index, updated)}
+              onRemove={() => removeChild(index)}
+              depth={depth + 1}
+            />
+          ) : (
+            <ConditionRow
+              condition={child}
+              onChange={(updated) => updateChild(index, updated)}
+              onRemove={group.children.length > 1 || depth > 0 ? () => removeChild(index) : undefined}
+            />
+          )}
+        </React.Fragment>
+      ))}
+
+      <div className="flex items-center gap-3">
+        <button
+          onClick={addCondition}
+          className="text-sm text-primary hover:underline"
+        >
+          + Add condition
+        </button>
+        {depth < MAX_GROUP_DEPTH - 1 && (
+          <button
+            onClick={addGroup}
+            className="text-sm text-primary hover:underline"
+          >
+            + Add group
+          </button>
+        )}
+      </div>
+    </div>
+  )
+}
+
+const PATTERN_PLACEHOLDERS: Partial<Record<RuleCondition['operator'], string>> = {
+  matches: 'Regular expression, e.g. ^https://.*\\.example\\.com/',
+  glob: 'Wildcards, e.g. *.example.com or docs?',
+  match_pattern: 'e.g. *://*.example.com/*'
+}
+
+interface ConditionRowProps {
+  condition: RuleCondition
+  onChange: (condition: RuleCondition) => void
+  onRemove?: () => void
+}
+
+function ConditionRow({ condition, onChange, onRemove }: ConditionRowProps) {
+  const conditionTypes = [
+    'url', 'title', 'domain', 'time', 'duplicate', 'pinned', 'audible', 'muted', 'incognito',
+    'group', 'window_type', 'window_id', 'opener_domain'
+  ] as const
+  const operators = ['contains', 'equals', 'starts_with', 'ends_with', 'matches', 'glob'] as const
+  const urlOperators = [...operators, 'match_pattern'] as const
+  const timeOperators = ['after', 'before', 'between', 'on_days', 'idle_for'] as const
+  const duplicateOperators = ['exact', 'ignore_hash', 'ignore_query'] as const
+  const stateOperators = ['is', 'is_not'] as const
+
+  function operatorsFor(type: RuleCondition['type']): readonly RuleCondition['operator'][] {
+    if (type === 'time') return timeOperators
+    if (type === 'duplicate') return duplicateOperators
+    if (type === 'window_type' || type === 'window_id' || !conditionTakesValue({ type, operator: 'is', value: '' })) {
+      return stateOperators
+    }
+    // Match patterns describe whole URLs
+    return type === 'url' ? urlOperators : operators
+  }
+
+  function changeType(type: RuleCondition['type']) {
+    const allowed = operatorsFor(type)
+    // Keep the operator and value when they still make sense for the new type
+    if (allowed.includes(condition.operator) && type !== 'window_type' && condition.type !== 'window_type') {
+      onChange({ ...condition, type })
+    } else {
+      onChange({ type, operator: allowed[0], value: type === 'window_type' ? 'normal' : '' })
+    }
+  }
+
+  const patternError = condition.value ? validatePattern(condition.operator, condition.value) : null
+
+  function changeOperator(operator: RuleCondition['operator']) {
+    // Time operators don't share a value format
+    onChange(condition.type === 'time'
+      ? { ...condition, operator, value: '' }
+      : { ...condition, operator })
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <select
+          value={condition.type}
+          onChange={(e) => changeType(e.target.value as RuleCondition['type'])}
+          className="px-2 pr-8 py-1 rounded border bg-background text-sm min-w-[80px]"
+        >
+          {conditionTypes.map(type => (
+            <option key={type} value={type}>{type.replace(/_/g, ' ')}</option>
+          ))}
+        </select>
+        <select
+          value={condition.operator}
+          onChange={(e) => changeOperator(e.target.value as RuleCondition['operator'])}
+          className="px-2 pr-8 py-1 rounded border bg-background text-sm min-w-[100px]"
+        >
+          {operatorsFor(condition.type).map(op => (
+            <option key={op} value={op}>{op === 'matches' ? 'matches regex' : op.replace(/_/g, ' ')}</option>
+          ))}
+        </select>
+        {onRemove && (
+          <button
+            onClick={onRemove}
+            className="p-1 rounded hover:bg-destructive hover:text-destructive-foreground ml-auto"
+          >
+            <Cross2Icon className="w-3 h-3" />
+          </button>
+        )}
+      </div>
+      {condition.type === 'duplicate' ? (
+        <p className="text-xs text-muted-foreground">
+          Matches when another open tab has the same URL
+          {condition.operator === 'ignore_hash' && ', ignoring the #fragment'}
+          {condition.operator === 'ignore_query' && ', ignoring the query string and #fragment'}
+        </p>
+      ) : condition.type === 'time' ? (
+        <TimeConditionValue
+          condition={condition}
+          onChange={(value) => onChange({ ...condition, value })}
+        />
+      ) : condition.type === 'window_type' ? (
+        <select
+          value={condition.value}
+          onChange={(e) => onChange({ ...condition, value: e.target.value })}
+          className="w-full px-2 pr-8 py-1 rounded border bg-background text-sm"
+        >
+          {['normal', 'popup', 'app', 'devtools'].map(type => (
+            <option key={type} value={type}>{type}</option>
+          ))}
+        </select>
+      ) : condition.type === 'window_id' ? (
+        <WindowIdValue
+          value={condition.value}
+          onChange={(value) => onChange({ ...condition, value })}
+        />
+      ) : !conditionTakesValue(condition) ? (
+        <p className="text-xs text-muted-foreground">
+          Matches tabs that {condition.operator === 'is_not' ? 'are not' : 'are'} {condition.type}
+        </p>
+      ) : (
+        <div className="space-y-2">
+          <input
+            type="text"
+            value={condition.value}
+            onChange={(e) => onChange({ ...condition, value: e.target.value })}
+            className={cn(
+              'w-full px-2 py-1 rounded border bg-background text-sm',
+              patternError && 'border-destructive'
+            )}
+            placeholder={PATTERN_PLACEHOLDERS[condition.operator] || 'Enter value...'}
+          />
+          {patternError && (
+            <p className="text-xs text-destructive">{patternError}</p>
+          )}
+          <label className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={condition.caseSensitive || false}
+              onChange={(e) => onChange({ ...condition, caseSensitive: e.target.checked })}
+              className="rounded border-gray-300"
+            />
+            <span className="text-muted-foreground">Case sensitive</span>
+          </label>
+        </div>
+      )}
+    </div>
+  )
+}
+
+// Every group needs at least one child and every condition needs a value
+function isGroupValid(group: ConditionGroup): boolean {
+  return group.children.length > 0 && group.children.every(child =>
+    isConditionGroup(child)
+      ? isGroupValid(child)
+      : !conditionTakesValue(child) || (child.value.trim() !== '' && !validatePattern(child.operator, child.value))
+  )
+}
+
 interface RuleEditorProps {
   rule: TabRule
+  workspaces: Workspace[]
   onChange: (rule: TabRule) => void
   onSave: () => void
   onCancel: () => void
 }
 
-function RuleEditor({ rule, onChange, onSave, onCancel }: RuleEditorProps) {
-  const conditionTypes = ['url', 'title', 'domain'] as const
-  const operators = ['contains', 'equals', 'starts_with', 'ends_with'] as const
-  const actionTypes = ['group', 'close', 'archive', 'pin'] as const
-
-  function updateCondition(index: number, field: keyof RuleCondition, value: any) {
-    const newConditions = [...rule.conditions]
-    newConditions[index] = { ...newConditions[index], [field]: value }
-    onChange({ ...rule, conditions: newConditions })
-  }
+function RuleEditor({ rule, workspaces, onChange, onSave, onCancel }: RuleEditorProps) {
+  const [showPreview, setShowPreview] = useState(false)
+  const actionTypes = [
+    'group', 'close', 'archive', 'pin', 'tag', 'suspend', 'move_to_window', 'mute', 'unmute',
+    'collapse_group', 'group_color', 'reload', 'bookmark', 'close_after'
+  ] as const
 
   function updateAction(index: number, field: keyof RuleAction, value: any) {
     const newActions = [...rule.actions]
@@ -289,18 +1022,12 @@ function RuleEditor({ rule, onChange, onSave, onCancel }: RuleEditorProps) {
     onChange({ ...rule, actions: newActions })
   }
 
-  function addCondition() {
-    onChange({
-      ...rule,
-      conditions: [...rule.conditions, { type: 'url', operator: 'contains', value: '' }]
-    })
-  }
-
-  function removeCondition(index: number) {
-    onChange({
-      ...rule,
-      conditions: rule.conditions.filter((_, i) => i !== index)
-    })
+  // Values mean something different for each action type, so start over
+  function changeActionType(index: number, type: RuleAction['type']) {
+    const value = type === 'group_color' ? 'blue' : type === 'close_after' ? '30' : ''
+    const newActions = [...rule.actions]
+    newActions[index] = { type, value }
+    onChange({ ...rule, actions: newActions })
   }
 
   function addAction() {
@@ -318,8 +1045,10 @@ function RuleEditor({ rule, onChange, onSave, onCancel }: RuleEditorProps) {
   }
 
   const isValid = rule.name.trim() && 
-    rule.conditions.every(c => c.value.trim()) &&
-    rule.actions.length > 0
+    isGroupValid(rule.conditions) &&
+    rule.actions.length > 0 &&
+    rule.actions.every(isActionValid) &&
+    (rule.scope !== 'workspace' || workspaces.some(w => w.id === rule.scopeWorkspaceId))
 
   return (
     <div className="space-y-4">
@@ -338,87 +1067,11 @@ function RuleEditor({ rule, onChange, onSave, onCancel }: RuleEditorProps) {
       {/* Conditions */}
       <div>
         <label className="text-sm font-medium mb-2 block">When tab matches:</label>
-        
-        {/* Operator selector - only show if there are multiple conditions */}
-        {rule.conditions.length > 1 && (
-          <div className="mb-3 flex items-center gap-2">
-            <span className="text-sm text-muted-foreground">Match</span>
-            <select
-              value={rule.conditionOperator || 'AND'}
-              onChange={(e) => onChange({ ...rule, conditionOperator: e.target.value as 'AND' | 'OR' })}
-              className="px-2 pr-8 py-1 rounded border bg-background text-sm"
-            >
-              <option value="AND">All conditions (AND)</option>
-              <option value="OR">Any condition (OR)</option>
-            </select>
-          </div>
-        )}
-        
-        <div className="space-y-2">
-          {rule.conditions.map((condition, index) => (
-            <React.Fragment key={index}>
-              {index > 0 && (
-                <div className="text-center text-xs text-muted-foreground py-1">
-                  {rule.conditionOperator || 'AND'}
-                </div>
-              )}
-              <div className="space-y-2">
-              <div className="flex items-center gap-2">
-                <select
-                  value={condition.type}
-                  onChange={(e) => updateCondition(index, 'type', e.target.value)}
-                  className="px-2 pr-8 py-1 rounded border bg-background text-sm min-w-[80px]"
-                >
-                  {conditionTypes.map(type => (
-                    <option key={type} value={type}>{type}</option>
-                  ))}
-                </select>
-                <select
-                  value={condition.operator}
-                  onChange={(e) => updateCondition(index, 'operator', e.target.value)}
-                  className="px-2 pr-8 py-1 rounded border bg-background text-sm min-w-[100px]"
-                >
-                  {operators.map(op => (
-                    <option key={op} value={op}>{op.replace('_', ' ')}</option>
-                  ))}
-                </select>
-                {rule.conditions.length > 1 && (
-                  <button
-                    onClick={() => removeCondition(index)}
-                    className="p-1 rounded hover:bg-destructive hover:text-destructive-foreground ml-auto"
-                  >
-                    <Cross2Icon className="w-3 h-3" />
-                  </button>
-                )}
-              </div>
-              <div className="space-y-2">
-                <input
-                  type="text"
-                  value={condition.value}
-                  onChange={(e) => updateCondition(index, 'value', e.target.value)}
-                  className="w-full px-2 py-1 rounded border bg-background text-sm"
-                  placeholder="Enter value..."
-                />
-                <label className="flex items-center gap-2 text-sm">
-                  <input
-                    type="checkbox"
-                    checked={condition.caseSensitive || false}
-                    onChange={(e) => updateCondition(index, 'caseSensitive', e.target.checked)}
-                    className="rounded border-gray-300"
-                  />
-                  <span className="text-muted-foreground">Case sensitive</span>
-                </label>
-              </div>
-            </div>
-            </React.Fragment>
-          ))}
-          <button
-            onClick={addCondition}
-            className="text-sm text-primary hover:underline"
-          >
-            + Add condition
-          </button>
-        </div>
+        <ConditionGroupEditor
+          group={rule.conditions}
+          onChange={(conditions) => onChange({ ...rule, conditions })}
+          depth={0}
+        />
       </div>
 
       {/* Actions */}
@@ -430,11 +1083,11 @@ function RuleEditor({ rule, onChange, onSave, onCancel }: RuleEditorProps) {
               <div className="flex items-center gap-2">
                 <select
                   value={action.type}
-                  onChange={(e) => updateAction(index, 'type', e.target.value)}
+                  onChange={(e) => changeActionType(index, e.target.value as RuleAction['type'])}
                   className="px-2 pr-8 py-1 rounded border bg-background text-sm min-w-[100px]"
                 >
                   {actionTypes.map(type => (
-                    <option key={type} value={type}>{type}</option>
+                    <option key={type} value={type}>{type.replace(/_/g, ' ')}</option>
                   ))}
                 </select>
                 <button
@@ -445,14 +1098,86 @@ function RuleEditor({ rule, onChange, onSave, onCancel }: RuleEditorProps) {
                 </button>
               </div>
               {action.type === 'group' && (
+                <div className="flex items-center gap-2">
+                  <input
+                    type="text"
+                    value={action.value || ''}
+                    onChange={(e) => updateAction(index, 'value', e.target.value)}
+                    className="flex-1 px-2 py-1 rounded border bg-background text-sm"
+                    placeholder="Group name..."
+                  />
+                  <select
+                    value={action.color || ''}
+                    onChange={(e) => updateAction(index, 'color', e.target.value || undefined)}
+                    className="px-2 pr-8 py-1 rounded border bg-background text-sm"
+                    aria-label="Group color"
+                  >
+                    <option value="">Last used color</option>
+                    {GROUP_COLORS.map(color => (
+                      <option key={color} value={color}>{color}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+              {action.type === 'tag' && (
                 <input
                   type="text"
                   value={action.value || ''}
                   onChange={(e) => updateAction(index, 'value', e.target.value)}
                   className="w-full px-2 py-1 rounded border bg-background text-sm"
-                  placeholder="Group name..."
+                  placeholder="Tag name..."
                 />
               )}
+              {action.type === 'move_to_window' && (
+                <input
+                  type="text"
+                  value={action.value || ''}
+                  onChange={(e) => updateAction(index, 'value', e.target.value)}
+                  className="w-full px-2 py-1 rounded border bg-background text-sm"
+                  placeholder="Window name (empty opens a new window)..."
+                />
+              )}
+              {action.type === 'collapse_group' && (
+                <input
+                  type="text"
+                  value={action.value || ''}
+                  onChange={(e) => updateAction(index, 'value', e.target.value)}
+                  className="w-full px-2 py-1 rounded border bg-background text-sm"
+                  placeholder="Group name (empty uses the tab's group)..."
+                />
+              )}
+              {action.type === 'group_color' && (
+                <select
+                  value={action.value || 'blue'}
+                  onChange={(e) => updateAction(index, 'value', e.target.value)}
+                  className="w-full px-2 pr-8 py-1 rounded border bg-background text-sm"
+                >
+                  {GROUP_COLORS.map(color => (
+                    <option key={color} value={color}>{color}</option>
+                  ))}
+                </select>
+              )}
+              {action.type === 'bookmark' && (
+                <input
+                  type="text"
+                  value={action.value || ''}
+                  onChange={(e) => updateAction(index, 'value', e.target.value)}
+                  className="w-full px-2 py-1 rounded border bg-background text-sm"
+                  placeholder="Bookmark folder name..."
+                />
+              )}
+              {action.type === 'close_after' && (
+                <div className="flex items-center gap-2">
+                  <input
+                    type="number"
+                    min={1}
+                    value={action.value || ''}
+                    onChange={(e) => updateAction(index, 'value', e.target.value)}
+                    className="w-20 px-2 py-1 rounded border bg-background text-sm"
+                  />
+                  <span className="text-sm text-muted-foreground">minutes</span>
+                </div>
+              )}
             </div>
           ))}
           <button
@@ -464,8 +1189,79 @@ function RuleEditor({ rule, onChange, onSave, onCancel }: RuleEditorProps) {
         </div>
       </div>
 
+      {/* Scope */}
+      <div className="flex items-center gap-2">
+        <span className="text-sm text-muted-foreground">Applies in</span>
+        <select
+          value={rule.scope || 'all'}
+          onChange={(e) => {
+            const scope = e.target.value as RuleScope
+            onChange({
+              ...rule,
+              scope,
+              scopeWorkspaceId: scope === 'workspace' ? rule.scopeWorkspaceId || workspaces[0]?.id : undefined
+            })
+          }}
+          className="px-2 pr-8 py-1 rounded border bg-background text-sm"
+        >
+          <option value="all">All windows</option>
+          <option value="normal">Normal windows</option>
+          <option value="incognito">Incognito windows</option>
+          <option value="workspace" disabled={workspaces.length === 0}>Windows showing workspace</option>
+        </select>
+        {rule.scope === 'workspace' && (
+          <select
+            value={rule.scopeWorkspaceId || ''}
+            onChange={(e) => onChange({ ...rule, scopeWorkspaceId: e.target.value })}
+            className="flex-1 min-w-0 px-2 pr-8 py-1 rounded border bg-background text-sm"
+          >
+            {!workspaces.some(w => w.id === rule.scopeWorkspaceId) && (
+              <option value="">Choose a workspace...</option>
+            )}
+            {workspaces.map(w => (
+              <option key={w.id} value={w.id}>{w.name}</option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      {/* Priority */}
+      <label className="flex items-center gap-2 text-sm">
+        <input
+          type="checkbox"
+          checked={rule.stopProcessing || false}
+          onChange={(e) => onChange({ ...rule, stopProcessing: e.target.checked })}
+          className="rounded border-gray-300"
+        />
+        <span className="text-muted-foreground">Stop further rules if this rule matches</span>
+      </label>
+
+      {/* Preview */}
+      <AnimatePresence>
+        {showPreview && (
+          <motion.div
+            initial={{ opacity: 0, height: 0 }}
+            animate={{ opacity: 1, height: 'auto' }}
+            exit={{ opacity: 0, height: 0 }}
+            className="overflow-hidden"
+          >
+            <RulePreview rule={rule} />
+          </motion.div>
+        )}
+      </AnimatePresence>
+
       {/* Actions */}
       <div className="flex items-center justify-end gap-2 pt-2">
+        <button
+          onClick={() => setShowPreview(!showPreview)}
+          className={cn(
+            'flex items-center gap-1.5 px-3 py-1.5 text-sm rounded-md hover:bg-accent mr-auto',
+            showPreview && 'bg-accent'
+          )}
+        >
+          <EyeOpenIcon className="w-3 h-3" />
+          Preview
+        </button>
         <button
           onClick={onCancel}
           className="px-3 py-1.5 text-sm rounded-md hover:bg-accent"
@@ -487,4 +1283,293 @@ function RuleEditor({ rule, onChange, onSave, onCancel }: RuleEditorProps) {
       </div>
     </div>
   )
-}
\ No newline at end of file
+}
+
+// Find the open tabs (across all windows) that the rule's scope and conditions match
+async function findMatchingTabs(rule: TabRule): Promise<{ matches: chrome.tabs.Tab[]; total: number }> {
+  const [tabs, activity] = await Promise.all([
+    chrome.tabs.query({}),
+    chrome.runtime.sendMessage({ action: 'getTabActivity' }).catch(() => null)
+  ])
+  const lastAccessed: Record<number, number> = activity?.lastAccessed || {}
+  const context = { openTabs: tabs, lastAccessed: (tabId: number) => lastAccessed[tabId] }
+
+  const matches: chrome.tabs.Tab[] = []
+  for (const tab of tabs) {
+    try {
+      if (await matchesRule(tab, rule, context)) {
+        matches.push(tab)
+      }
+    } catch {
+      // Incomplete conditions (e.g. a half-typed pattern) simply don't match
+    }
+  }
+  return { matches, total: tabs.length }
+}
+
+function RulePreview({ rule }: { rule: TabRule }) {
+  const [result, setResult] = useState<{ matches: chrome.tabs.Tab[]; total: number } | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    findMatchingTabs(rule).then(r => {
+      if (!cancelled) setResult(r)
+    })
+    return () => { cancelled = true }
+  }, [rule.conditions, rule.scope, rule.scopeWorkspaceId])
+
+  if (!result) {
+    return <p className="text-sm text-muted-foreground">Checking open tabs...</p>
+  }
+
+  const windowIds = Array.from(new Set(result.matches.map(t => t.windowId)))
+  const destructive = rule.actions.some(a => a.type === 'close' || a.type === 'archive')
+
+  return (
+    <div className="rounded-md border p-3 space-y-2">
+      <div className="flex items-center justify-between text-sm">
+        <span className="font-medium">Preview</span>
+        <span className="text-muted-foreground">
+          {result.matches.length} of {result.total} open tabs match
+        </span>
+      </div>
+      {result.matches.length > 0 && (
+        <p className={cn('text-xs', destructive ? 'text-destructive' : 'text-muted-foreground')}>
+          Would run: {rule.actions.map(describeAction).join(', ')}
+        </p>
+      )}
+      <div className="max-h-48 overflow-y-auto space-y-1">
+        {result.matches.map(tab => (
+          <div key={tab.id} className="flex items-center gap-2 text-xs">
+            <div className="w-3 h-3 flex-shrink-0">
+              {tab.favIconUrl ? (
+                <img src={tab.favIconUrl} alt="" className="w-full h-full object-contain" />
+              ) : (
+                <div className="w-3 h-3 bg-muted rounded" />
+              )}
+            </div>
+            <span className="truncate flex-1">{tab.title || tab.url || 'Untitled'}</span>
+            {windowIds.length > 1 && (
+              <span className="text-muted-foreground flex-shrink-0">
+                Window {windowIds.indexOf(tab.windowId) + 1}
+              </span>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+const DAYS = ['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun'] as const
+
+interface WindowIdValueProps {
+  value: string
+  onChange: (value: string) => void
+}
+
+// Window ids are only stable until the browser restarts, so offer the
+// current window rather than making people look the id up
+function WindowIdValue({ value, onChange }: WindowIdValueProps) {
+  const [currentWindowId, setCurrentWindowId] = useState<number | null>(null)
+
+  useEffect(() => {
+    chrome.windows.getCurrent().then(w => setCurrentWindowId(w.id ?? null))
+  }, [])
+
+  return (
+    <div className="flex items-center gap-2">
+      <input
+        type="number"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className="flex-1 px-2 py-1 rounded border bg-background text-sm"
+        placeholder="Window id"
+      />
+      {currentWindowId !== null && String(currentWindowId) !== value && (
+        <button
+          onClick={() => onChange(String(currentWindowId))}
+          className="text-sm text-primary hover:underline"
+        >
+          This window
+        </button>
+      )}
+    </div>
+  )
+}
+
+interface TimeConditionValueProps {
+  condition: RuleCondition
+  onChange: (value: string) => void
+}
+
+function TimeConditionValue({ condition, onChange }: TimeConditionValueProps) {
+  const inputClass = 'px-2 py-1 rounded border bg-background text-sm'
+
+  switch (condition.operator) {
+    case 'between': {
+      const [from = '', to = ''] = condition.value.split('-')
+      return (
+        <div className="flex items-center gap-2">
+          <input
+            type="time"
+            value={from}
+            onChange={(e) => onChange(`${e.target.value}-${to}`)}
+            className={cn(inputClass, 'flex-1')}
+          />
+          <span className="text-sm text-muted-foreground">and</span>
+          <input
+            type="time"
+            value={to}
+            onChange={(e) => onChange(`${from}-${e.target.value}`)}
+            className={cn(inputClass, 'flex-1')}
+          />
+        </div>
+      )
+    }
+    case 'on_days': {
+      const selected = condition.value.split(',').filter(Boolean)
+      return (
+        <div className="flex flex-wrap gap-1">
+          {DAYS.map(day => (
+            <button
+              key={day}
+              onClick={() => {
+                const next = selected.includes(day)
+                  ? selected.filter(d => d !== day)
+                  : [...selected, day]
+                onChange(DAYS.filter(d => next.includes(d)).join(','))
+              }}
+              className={cn(
+                'px-2 py-1 rounded border text-xs capitalize',
+                selected.includes(day) ? 'bg-primary text-primary-foreground' : 'bg-background hover:bg-accent'
+              )}
+            >
+              {day}
+            </button>
+          ))}
+        </div>
+      )
+    }
+    case 'idle_for':
+      return (
+        <div className="flex items-center gap-2">
+          <input
+            type="number"
+            min="1"
+            value={condition.value}
+            onChange={(e) => onChange(e.target.value)}
+            className={cn(inputClass, 'w-24')}
+            placeholder="30"
+          />
+          <span className="text-sm text-muted-foreground">minutes without being viewed</span>
+        </div>
+      )
+    default:
+      return (
+        <input
+          type="time"
+          value={condition.value}
+          onChange={(e) => onChange(e.target.value)}
+          className={cn(inputClass, 'w-full')}
+        />
+      )
+  }
+}
+
+function describeCondition(condition: RuleCondition): string {
+  const negation = condition.operator === 'is_not' ? 'not ' : ''
+  if (condition.type === 'window_type') {
+    return `window is ${negation}${condition.value}`
+  }
+  if (condition.type === 'window_id') {
+    return `window is ${negation}#${condition.value}`
+  }
+  if (condition.type === 'opener_domain') {
+    return `opened from ${condition.operator.replace(/_/g, ' ')} "${condition.value}"`
+  }
+  if (condition.type === 'duplicate') {
+    return condition.operator === 'exact'
+      ? 'is a duplicate'
+      : `is a duplicate (${condition.operator.replace(/_/g, ' ')})`
+  }
+  if (!conditionTakesValue(condition)) {
+    return `is ${negation}${condition.type}`
+  }
+  if (condition.type === 'time') {
+    switch (condition.operator) {
+      case 'after':
+        return `after ${condition.value}`
+      case 'before':
+        return `before ${condition.value}`
+      case 'between':
+        return `between ${condition.value.replace('-', ' and ')}`
+      case 'on_days':
+        return `on ${condition.value.split(',').join(', ')}`
+      case 'idle_for':
+        return `idle for ${condition.value} min`
+    }
+  }
+  return `${condition.type} ${condition.operator} "${condition.value}"${condition.caseSensitive ? ' (case sensitive)' : ''}`
+}
+
+function describeGroup(group: ConditionGroup, topLevel = false): string {
+  const parts = group.children.map(child =>
+    isConditionGroup(child) ? describeGroup(child) : describeCondition(child)
+  )
+  if (group.operator === 'NOT') {
+    return `NOT (${parts.join(' OR ')})`
+  }
+  const joined = parts.join(` ${group.operator} `)
+  return topLevel || parts.length < 2 ? joined : `(${joined})`
+}
+
+function describeScope(rule: TabRule, workspaces: Workspace[]): string | null {
+  switch (rule.scope) {
+    case 'normal':
+      return 'Normal windows'
+    case 'incognito':
+      return 'Incognito only'
+    case 'workspace': {
+      const workspace = workspaces.find(w => w.id === rule.scopeWorkspaceId)
+      return workspace ? `In ${workspace.name}` : 'Missing workspace'
+    }
+    default:
+      return null
+  }
+}
+
+function describeAction(action: RuleAction): string {
+  switch (action.type) {
+    case 'group':
+      return `Add to group "${action.value}"${action.color ? ` (${action.color})` : ''}`
+    case 'tag':
+      return `Tag as "${action.value}"`
+    case 'move_to_window':
+      return action.value ? `Move to window "${action.value}"` : 'Move to a new window'
+    case 'collapse_group':
+      return action.value ? `Collapse group "${action.value}"` : 'Collapse group'
+    case 'group_color':
+      return `Color group ${action.value}`
+    case 'bookmark':
+      return `Bookmark in "${action.value}"`
+    case 'close_after':
+      return `Close after ${action.value} min`
+    default:
+      return action.type
+  }
+}
+
+function isActionValid(action: RuleAction): boolean {
+  switch (action.type) {
+    case 'tag':
+    case 'bookmark':
+      return !!action.value?.trim()
+    case 'group_color':
+      return isGroupColor(action.value)
+    case 'close_after':
+      return Number(action.value) > 0
+    default:
+      return true
+  }
+}
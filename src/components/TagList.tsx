@@ -0,0 +1,17 @@
+interface TagListProps {
+  tags?: string[]
+}
+
+export function TagList({ tags }: TagListProps) {
+  if (!tags?.length) return null
+
+  return (
+    <div className="flex flex-wrap gap-1 mt-0.5">
+      {tags.map(tag => (
+        <span key={tag} className="text-[10px] px-1.5 py-0.5 rounded bg-primary/10 text-primary">
+          {tag}
+        </span>
+      ))}
+    </div>
+  )
+}
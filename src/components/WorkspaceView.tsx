@@ -6,103 +6,122 @@ import {
   DownloadIcon,
   CheckIcon,
   ClockIcon,
-  DotFilledIcon
+  DotFilledIcon,
+  CounterClockwiseClockIcon,
+  UpdateIcon
 } from '@radix-ui/react-icons'
 import { storage } from '@/utils/storage'
-import type { Workspace } from '@/types'
+import { formatTimeAgo } from '@/utils/format'
+import {
+  captureWindow,
+  chromeGroupIdOf,
+  diffWorkspaceTabs,
+  primaryGroup,
+  workspaceGroups,
+  workspaceTabs
+} from '@/utils/workspaces'
+import type { Workspace, WorkspaceSnapshot } from '@/types'
 import { cn } from '@/utils/cn'
 
 export function WorkspaceView() {
   const [workspaces, setWorkspaces] = useState<Workspace[]>([])
   const [activeWorkspaceId, setActiveWorkspaceId] = useState<string | null>(null)
-  const [currentGroups, setCurrentGroups] = useState<chrome.tabGroups.TabGroup[]>([])
+  const [newName, setNewName] = useState('')
+  const [openGroupIds, setOpenGroupIds] = useState<Set<number>>(new Set())
+  const [historyFor, setHistoryFor] = useState<string | null>(null)
+  const [history, setHistory] = useState<WorkspaceSnapshot[]>([])
 
   useEffect(() => {
     loadWorkspaces()
-    loadCurrentGroups()
   }, [])
 
   async function loadWorkspaces() {
-    const [ws, activeId] = await Promise.all([
+    const [ws, activeId, groups] = await Promise.all([
       storage.getWorkspaces(),
-      storage.getActiveWorkspace()
+      storage.getActiveWorkspace(),
+      chrome.tabGroups.query({})
     ])
     setWorkspaces(ws)
     setActiveWorkspaceId(activeId)
+    setOpenGroupIds(new Set(groups.map(g => g.id)))
   }
 
-  async function loadCurrentGroups() {
-    const groups = await chrome.tabGroups.query({ windowId: chrome.windows.WINDOW_ID_CURRENT })
-    setCurrentGroups(groups)
+  async function toggleHistory(workspaceId: string) {
+    if (historyFor === workspaceId) {
+      setHistoryFor(null)
+      return
+    }
+    setHistory(await storage.getWorkspaceHistory(workspaceId))
+    setHistoryFor(workspaceId)
   }
 
-  async function saveGroup(groupId: number, groupName: string, customName?: string) {
-    const tabs = await chrome.tabs.query({ currentWindow: true, groupId })
-    const group = await chrome.tabGroups.get(groupId)
-    
+  async function restoreSnapshot(workspaceId: string, snapshotId: string) {
+    await storage.restoreWorkspaceSnapshot(workspaceId, snapshotId)
+    setHistory(await storage.getWorkspaceHistory(workspaceId))
+    await loadWorkspaces()
+  }
+
+  // Save the current window, or every normal window, with its layout
+  async function saveWindows(allWindows: boolean) {
+    const [currentWindow, windows, tabTags] = await Promise.all([
+      chrome.windows.getCurrent(),
+      chrome.windows.getAll({ windowTypes: ['normal'] }),
+      storage.getTabTags()
+    ])
+    const windowIds = allWindows
+      ? [currentWindow.id!, ...windows.map(w => w.id!).filter(id => id !== currentWindow.id)]
+      : [currentWindow.id!]
+
     const workspace: Workspace = {
       id: `ws_${Date.now()}`,
-      name: customName || `${groupName} - ${new Date().toLocaleDateString()}`,
-      groups: [{
-        id: `g_${group.id}`,
-        name: group.title || groupName,
-        color: group.color,
-        collapsed: false,
-        tabs: tabs.map(t => t.id!),
-        createdAt: Date.now(),
-        updatedAt: Date.now()
-      }],
-      tabs: tabs.map(t => ({ ...t })),
+      name: newName.trim() || `Workspace - ${new Date().toLocaleString()}`,
+      kind: 'windows',
+      windows: await Promise.all(windowIds.map(id => captureWindow(id, tabTags))),
       createdAt: Date.now(),
       updatedAt: Date.now()
     }
 
     await storage.saveWorkspace(workspace)
+    // These windows now show the workspace, for rules scoped to it
+    await storage.addWorkspaceWindowIds(workspace.id, windowIds, true)
+    setNewName('')
     await loadWorkspaces()
   }
 
-  async function loadWorkspace(workspace: Workspace) {
-    // Close all current tabs
-    const currentTabs = await chrome.tabs.query({ currentWindow: true })
-    const tabIds = currentTabs.map(t => t.id).filter(Boolean) as number[]
-    if (tabIds.length > 0) {
-      await chrome.tabs.remove(tabIds)
-    }
-
-    // Create new tabs from workspace
-    const tabIdMap = new Map<number, number>()
-    
-    for (const tab of workspace.tabs) {
-      if (tab.url) {
-        const newTab = await chrome.tabs.create({ 
-          url: tab.url,
-          pinned: tab.pinned,
-          active: false
-        })
-        if (tab.id && newTab.id) {
-          tabIdMap.set(tab.id, newTab.id)
-        }
-      }
-    }
+  // Save the windows showing a workspace back into it, or the current window
+  // when none of them are open. The version it replaces goes into its history.
+  async function updateWorkspace(workspace: Workspace) {
+    const [currentWindow, windows, windowIdsByWorkspace, tabTags] = await Promise.all([
+      chrome.windows.getCurrent(),
+      chrome.windows.getAll({ windowTypes: ['normal'] }),
+      storage.getWorkspaceWindowIds(),
+      storage.getTabTags()
+    ])
+    const openIds = new Set(windows.map(w => w.id))
+    const shown = (windowIdsByWorkspace[workspace.id] || []).filter(id => openIds.has(id))
+    const windowIds = shown.length > 0 ? shown : [currentWindow.id!]
 
-    // Recreate groups
-    for (const group of workspace.groups) {
-      const tabIds = group.tabs
-        .map(oldId => tabIdMap.get(oldId))
-        .filter(Boolean) as number[]
-      
-      if (tabIds.length > 0) {
-        const groupId = await chrome.tabs.group({ tabIds })
-        await chrome.tabGroups.update(groupId, {
-          title: group.name,
-          color: group.color,
-          collapsed: group.collapsed
-        })
-      }
-    }
+    await storage.saveWorkspace({
+      ...workspace,
+      windows: await Promise.all(windowIds.map(id => captureWindow(id, tabTags))),
+      updatedAt: Date.now()
+    })
+    await storage.addWorkspaceWindowIds(workspace.id, windowIds, true)
+    if (historyFor === workspace.id) setHistory(await storage.getWorkspaceHistory(workspace.id))
+    await loadWorkspaces()
+  }
 
-    await storage.setActiveWorkspace(workspace.id)
+  // The switch runs in the background worker: opening or focusing a window
+  // closes this popup, which would stop the switch halfway
+  async function loadWorkspace(workspace: Workspace) {
+    const currentWindow = await chrome.windows.getCurrent()
+    await chrome.runtime.sendMessage({
+      action: 'switchWorkspace',
+      workspaceId: workspace.id,
+      windowId: currentWindow.id
+    })
     setActiveWorkspaceId(workspace.id)
+    await loadWorkspaces()
   }
 
   async function deleteWorkspace(id: string) {
@@ -116,6 +135,32 @@ export function WorkspaceView() {
 
   return (
     <div className="space-y-4">
+      {/* Save */}
+      <div className="flex items-center gap-2">
+        <input
+          type="text"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          placeholder="Workspace name"
+          className="flex-1 min-w-0 px-3 py-2 rounded-md border bg-background text-sm"
+        />
+        <button
+          onClick={() => saveWindows(false)}
+          className="flex items-center gap-1 px-3 py-2 text-sm rounded-md hover:bg-accent"
+          title="Save this window's tabs, groups and layout"
+        >
+          <PlusIcon className="w-4 h-4" />
+          Window
+        </button>
+        <button
+          onClick={() => saveWindows(true)}
+          className="flex items-center gap-1 px-3 py-2 text-sm rounded-md hover:bg-accent"
+          title="Save every open window"
+        >
+          <PlusIcon className="w-4 h-4" />
+          All windows
+        </button>
+      </div>
 
       {/* Workspace List */}
       <div className="space-y-2">
@@ -134,8 +179,10 @@ export function WorkspaceView() {
               <div className="flex-1 min-w-0">
                 <h3 className="font-medium text-sm truncate">{workspace.name}</h3>
                 <div className="flex items-center gap-3 mt-1 text-xs text-muted-foreground">
-                  <span>{workspace.tabs.length} tabs</span>
-                  <span>{workspace.groups.length} groups</span>
+                  <span>{workspaceTabs(workspace).length} tabs</span>
+                  <span>{workspaceGroups(workspace).length} groups</span>
+                  {workspace.windows.length > 1 && <span>{workspace.windows.length} windows</span>}
+                  {workspace.stashed && <span>Stashed</span>}
                   <span className="flex items-center gap-1">
                     <ClockIcon className="w-3 h-3" />
                     {new Date(workspace.createdAt).toLocaleDateString()}
@@ -157,6 +204,26 @@ export function WorkspaceView() {
                     <DownloadIcon className="w-3 h-3" />
                   </button>
                 )}
+                {/* Stashes are never saved over, so they have no history */}
+                {workspace.kind === 'windows' && !workspace.stashed && (
+                  <button
+                    onClick={() => updateWorkspace(workspace)}
+                    className="p-1.5 rounded hover:bg-accent"
+                    aria-label="Save open windows into workspace"
+                    title="Save the windows showing this workspace into it"
+                  >
+                    <UpdateIcon className="w-3 h-3" />
+                  </button>
+                )}
+                {!workspace.stashed && (
+                  <button
+                    onClick={() => toggleHistory(workspace.id)}
+                    className={cn('p-1.5 rounded hover:bg-accent', historyFor === workspace.id && 'bg-accent')}
+                    aria-label="Show history"
+                  >
+                    <CounterClockwiseClockIcon className="w-3 h-3" />
+                  </button>
+                )}
                 <button
                   onClick={() => deleteWorkspace(workspace.id)}
                   className="p-1.5 rounded hover:bg-destructive hover:text-destructive-foreground"
@@ -166,6 +233,16 @@ export function WorkspaceView() {
                 </button>
               </div>
             </div>
+
+            {historyFor === workspace.id && (
+              <WorkspaceHistoryList
+                workspace={workspace}
+                snapshots={history}
+                // An open saved group would save over a restored version straight away
+                restoreDisabled={workspace.kind === 'group' && isGroupOpen(workspace, openGroupIds)}
+                onRestore={(snapshotId) => restoreSnapshot(workspace.id, snapshotId)}
+              />
+            )}
           </motion.div>
         ))}
       </div>
@@ -178,4 +255,63 @@ export function WorkspaceView() {
       )}
     </div>
   )
-}
\ No newline at end of file
+}
+
+interface WorkspaceHistoryListProps {
+  workspace: Workspace
+  snapshots: WorkspaceSnapshot[]
+  restoreDisabled: boolean
+  onRestore: (snapshotId: string) => void
+}
+
+// Earlier versions of a workspace, each with what changed in the version after it
+function WorkspaceHistoryList({ workspace, snapshots, restoreDisabled, onRestore }: WorkspaceHistoryListProps) {
+  if (snapshots.length === 0) {
+    return (
+      <p className="mt-3 pt-3 border-t text-xs text-muted-foreground">
+        No earlier versions yet. One is kept whenever a save changes this workspace's tabs.
+      </p>
+    )
+  }
+
+  return (
+    <div className="mt-3 pt-3 border-t space-y-2">
+      {snapshots.map((snapshot, index) => {
+        const newer = index === 0 ? workspace.windows : snapshots[index - 1].windows
+        const { added, removed } = diffWorkspaceTabs(snapshot.windows, newer)
+        const tabCount = snapshot.windows.reduce((sum, w) => sum + w.tabs.length, 0)
+        return (
+          <div key={snapshot.id} className="flex items-start justify-between gap-2 text-xs">
+            <div className="min-w-0">
+              <p className="font-medium">
+                {formatTimeAgo(snapshot.savedAt)} · {tabCount} tabs
+              </p>
+              <p className="text-muted-foreground">
+                {removed.length} removed and {added.length} added after this
+              </p>
+              {removed.slice(0, 3).map((tab, i) => (
+                <p key={i} className="text-muted-foreground truncate">− {tab.title || tab.url}</p>
+              ))}
+              {removed.length > 3 && (
+                <p className="text-muted-foreground">and {removed.length - 3} more</p>
+              )}
+            </div>
+            <button
+              onClick={() => onRestore(snapshot.id)}
+              disabled={restoreDisabled}
+              className="flex-shrink-0 px-2 py-1 rounded-md hover:bg-accent disabled:opacity-50"
+              title={restoreDisabled ? 'Close this group before restoring an earlier version' : 'Restore this version'}
+            >
+              Restore
+            </button>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
+
+function isGroupOpen(workspace: Workspace, openGroupIds: Set<number>): boolean {
+  const group = primaryGroup(workspace)
+  return !!group && openGroupIds.has(chromeGroupIdOf(group))
+}
@@ -1,8 +1,13 @@
 export interface TabInfo extends chrome.tabs.Tab {
   lastAccessed?: number;
   timeSpent?: number;
+  tags?: string[];
 }
 
+// User labels attached by the 'tag' rule action, keyed by tab id. The URL is
+// kept so tags can be re-attached after a browser restart reassigns tab ids.
+export type TabTags = Record<number, { url: string; tags: string[] }>;
+
 export interface TabGroup {
   id: string;
   name: string;
@@ -14,39 +19,224 @@ export interface TabGroup {
   icon?: string;
 }
 
+// Saved groups are workspaces holding a single group; full workspaces hold
+// every tab of one or more windows. The workspace id is a saved group's
+// stable identity; its group's id only links it to an open Chrome group.
 export interface Workspace {
   id: string;
   name: string;
   description?: string;
-  groups: TabGroup[];
-  tabs: TabInfo[];
+  kind: 'group' | 'windows';
+  windows: WorkspaceWindow[];
   createdAt: number;
   updatedAt: number;
   isActive?: boolean;
+  stashed?: boolean; // Auto-saved from a window's tabs before switching workspaces
+}
+
+// One window of a workspace. Tabs are in tab strip order (pinned tabs first,
+// as Chrome keeps them); groups refer to tabs by the ids they had when saved.
+export interface WorkspaceWindow {
+  tabs: TabInfo[];
+  groups: TabGroup[];
+  bounds?: WindowBounds;
+}
+
+export interface WindowBounds {
+  left?: number;
+  top?: number;
+  width?: number;
+  height?: number;
+  state?: chrome.windows.windowStateEnum;
+}
+
+// An earlier version of a workspace, kept when a save changed its tabs
+// Just enough of a saved tab to list it and open it again; the id is kept
+// for the group memberships that refer to it
+export type SnapshotTab = Pick<TabInfo, 'id' | 'url' | 'title' | 'pinned' | 'favIconUrl'>;
+
+export interface SnapshotWindow {
+  tabs: SnapshotTab[];
+  groups: TabGroup[];
+  bounds?: WindowBounds;
 }
 
+export interface WorkspaceSnapshot {
+  id: string;
+  name: string;
+  windows: SnapshotWindow[];
+  savedAt: number; // When this version was saved
+  replacedAt: number; // When a newer version replaced it
+}
+
+// Window ids each workspace was opened into or saved from, by workspace id.
+// Window ids only last a browser session.
+export type WorkspaceWindowIds = Record<string, number[]>;
+
+// Open group ids the user said a saved group isn't, by workspace id. Group
+// ids only last a browser session.
+export type DeclinedGroupMatches = Record<string, number[]>;
+
+// Snapshots by workspace id, newest first
+export type WorkspaceHistory = Record<string, WorkspaceSnapshot[]>;
+
+// A saved group that several open groups look like after a browser restart,
+// waiting for the user to say which one it is
+export interface GroupMatchPrompt {
+  workspaceId: string;
+  candidates: Array<{
+    groupId: number;
+    title: string;
+    color: chrome.tabGroups.ColorEnum;
+    tabCount: number;
+  }>;
+}
+
+// How loading a workspace treats the current window: open the workspace in a
+// new window, save the current tabs as a stash and replace them, or add to them
+export type WorkspaceSwitchMode = 'new_window' | 'stash' | 'merge';
+
 export interface TabRule {
   id: string;
   name: string;
   enabled: boolean;
-  conditions: RuleCondition[];
-  conditionOperator?: 'AND' | 'OR'; // Default to AND for backward compatibility
+  conditions: ConditionGroup;
   actions: RuleAction[];
+  priority?: number; // Lower runs first; rules without one run last, oldest first
+  stopProcessing?: boolean; // Skip lower-priority rules once this one matches
+  scope?: RuleScope; // Defaults to all windows
+  scopeWorkspaceId?: string; // Workspace whose windows a 'workspace' scoped rule applies to
   createdAt: number;
   updatedAt: number;
   blockedReason?: string; // When present, rule cannot be toggled on
 }
 
+// Which windows a rule applies in. 'workspace' limits it to windows that
+// currently show the rule's scopeWorkspaceId: windows it was opened into or
+// saved from, and windows holding one of its saved groups.
+export type RuleScope = 'all' | 'normal' | 'incognito' | 'workspace';
+
+// A boolean expression over conditions. AND needs every child to match, OR
+// any child, and NOT matches when none of its children do.
+export interface ConditionGroup {
+  type: 'group';
+  operator: 'AND' | 'OR' | 'NOT';
+  children: ConditionNode[];
+}
+
+export type ConditionNode = RuleCondition | ConditionGroup;
+
 export interface RuleCondition {
-  type: 'url' | 'title' | 'domain' | 'time' | 'duplicate';
-  operator: 'contains' | 'equals' | 'matches' | 'starts_with' | 'ends_with';
+  type: 'url' | 'title' | 'domain' | 'time' | 'duplicate' | StateConditionType |
+    'group' | 'window_type' | 'window_id' | 'opener_domain';
+  operator: 'contains' | 'equals' | 'starts_with' | 'ends_with' | PatternOperator |
+    TimeOperator | DuplicateOperator | StateOperator;
   value: string;
   caseSensitive?: boolean;
 }
 
+// Operators whose value is compiled into a matcher: 'matches' takes a regular
+// expression, 'glob' a wildcard pattern (* and ?) over the whole text, and
+// 'match_pattern' a Chrome match pattern such as *://*.example.com/* (URLs only)
+export type PatternOperator = 'matches' | 'glob' | 'match_pattern';
+
+// Conditions on a tab's boolean state. They take no value.
+export type StateConditionType = 'pinned' | 'audible' | 'muted' | 'incognito';
+
+// Operators for state conditions and for window_type/window_id, whose value is
+// the window type (normal, popup, app, devtools) or the numeric window id
+export type StateOperator = 'is' | 'is_not';
+
+// Operators for 'time' conditions. Values are "HH:MM" for after/before,
+// "HH:MM-HH:MM" for between, comma-separated day names (mon,tue,...) for
+// on_days and a number of minutes for idle_for.
+export type TimeOperator = 'after' | 'before' | 'between' | 'on_days' | 'idle_for';
+
+// Operators for 'duplicate' conditions pick how URLs are normalized before
+// comparing them with the other open tabs. These conditions take no value.
+export type DuplicateOperator = 'exact' | 'ignore_hash' | 'ignore_query';
+
+// Action values: group name for group, tag for tag, window name for
+// move_to_window (empty opens a new window), group name for collapse_group
+// (empty uses the tab's group), color for group_color, folder name for
+// bookmark and minutes for close_after
 export interface RuleAction {
-  type: 'group' | 'close' | 'archive' | 'tag' | 'pin' | 'suspend';
+  type: 'group' | 'close' | 'archive' | 'tag' | 'pin' | 'suspend' | 'move_to_window' | 'mute' | 'unmute' |
+    'collapse_group' | 'group_color' | 'reload' | 'bookmark' | 'close_after';
   value?: string;
+  color?: chrome.tabGroups.ColorEnum; // group only; defaults to the color last used for the group name
+}
+
+// Activity tracked by the background worker, persisted so it survives the
+// worker being stopped. Keyed by tab id.
+export interface TabActivity {
+  lastAccessed: Record<number, number>;
+  timeSpent: Record<number, number>;
+  activeTabId: number | null;
+  activeDomain: string;
+  activeSince: number; // When the active tab started accumulating time
+  // Time only accumulates while a browser window has focus and the user is active
+  windowFocused: boolean;
+  idleState: chrome.idle.IdleState;
+}
+
+// Attention time per domain in milliseconds, keyed by local day (YYYY-MM-DD)
+export type DomainTime = Record<string, Record<string, number>>;
+
+// Last color chosen for each group name, so groups keep their color across sessions
+export type GroupColors = Record<string, chrome.tabGroups.ColorEnum>;
+
+// A tab the extension closed or archived, kept for a short while so the
+// removal can be undone. Tabs removed together share a batchId.
+export interface RemovedTab {
+  batchId: string;
+  reason: RemovalReason;
+  ruleName?: string;
+  url: string;
+  title?: string;
+  windowId: number;
+  index: number;
+  pinned: boolean;
+  group?: { id: number; title?: string; color: chrome.tabGroups.ColorEnum };
+  tags?: string[];
+  archivedAt?: number; // Set when the tab was archived rather than closed
+  removedAt: number;
+}
+
+export type RemovalReason = 'rule' | 'duplicate' | 'tab_limit' | 'auto_archive' | 'scheduled_close';
+
+// Tabs a close_after action will close, by tab id. The URL guards against the
+// id being reused by another tab after a browser restart.
+export type ScheduledCloses = Record<number, { url?: string; closeAt: number }>;
+
+export interface RuleLogEntry {
+  id: string;
+  ruleId: string;
+  ruleName: string;
+  tabUrl?: string;
+  tabTitle?: string;
+  actions: RuleAction[]; // Actions that completed before any error
+  outcome: 'success' | 'error';
+  error?: string;
+  timestamp: number;
+}
+
+export interface RuleStats {
+  hitCount: number;
+  lastFiredAt: number;
+}
+
+// Sent with the 'runRules' message to run rules against open tabs on demand.
+// Omitting ruleIds runs every rule; omitting windowId covers all windows.
+export interface RuleRunRequest {
+  ruleIds?: string[];
+  windowId?: number;
+  dryRun?: boolean;
+}
+
+export interface RuleRunResult {
+  affectedTabs: number;
+  removedTabs: number; // Closed or archived
 }
 
 export interface TabStats {
@@ -75,4 +265,23 @@ export interface Settings {
   autoCollapseGroups: boolean;
   autoCollapseDelay: number;
   copyUrlShortcutEnabled: boolean; // Enable Ctrl/Cmd+Shift+C to copy current URL
-}
\ No newline at end of file
+  // How URLs are normalized before comparing them for duplicates
+  duplicateIgnoreHash: boolean;
+  duplicateStripTrackingParams: boolean; // utm_* and click ids like fbclid/gclid
+  duplicateIgnoreTrailingSlash: boolean;
+  duplicateIgnoreProtocol: boolean; // http and https count as the same page
+  duplicateKeepPolicy: DuplicateKeepPolicy;
+  duplicateMode: DuplicateMode;
+  duplicateAllowedDomains: string[]; // Duplicates are always allowed here, e.g. localhost
+  workspaceSwitchMode: WorkspaceSwitchMode;
+  lazyRestore: boolean; // Restored tabs stay unloaded until they're activated
+  lazyRestoreEagerTabs: number; // How many restored tabs still load right away
+}
+
+// What happens when a tab loads a page that is already open: close the other
+// copies, or close the new tab and switch to the existing one
+export type DuplicateMode = 'close_others' | 'focus_existing';
+
+// Which copy survives when duplicates are closed. newest/oldest go by when the
+// tab was opened; the others fall back to the newest copy.
+export type DuplicateKeepPolicy = 'newest' | 'oldest' | 'pinned' | 'grouped' | 'most_time';
\ No newline at end of file
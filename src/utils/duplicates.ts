@@ -0,0 +1,150 @@
+import { storage } from './storage'
+import type { DuplicateKeepPolicy, Settings } from '@/types'
+
+// Duplicate tab detection, shared by the background worker's automatic
+// cleanup and the popup's Close Duplicates action
+
+export interface DuplicateOptions {
+  ignoreHash?: boolean
+  ignoreQuery?: boolean
+  stripTrackingParams?: boolean
+  ignoreTrailingSlash?: boolean
+  ignoreProtocol?: boolean // Treat http and https as the same page
+  allowedDomains?: string[] // Domains where duplicates are left alone
+}
+
+export interface DuplicateSet {
+  keep: chrome.tabs.Tab
+  close: chrome.tabs.Tab[]
+}
+
+// Query parameters that only track where a visit came from
+const TRACKING_PARAMS = new Set([
+  'fbclid', 'gclid', 'dclid', 'gbraid', 'wbraid', 'msclkid', 'yclid', 'igshid', 'mc_cid', 'mc_eid', '_hsenc', '_hsmi'
+])
+
+export function duplicateOptionsFromSettings(settings: Settings): DuplicateOptions {
+  return {
+    ignoreHash: settings.duplicateIgnoreHash,
+    stripTrackingParams: settings.duplicateStripTrackingParams,
+    ignoreTrailingSlash: settings.duplicateIgnoreTrailingSlash,
+    ignoreProtocol: settings.duplicateIgnoreProtocol,
+    allowedDomains: settings.duplicateAllowedDomains
+  }
+}
+
+export function normalizeDuplicateUrl(url: string, options: DuplicateOptions): string {
+  let parsed: URL
+  try {
+    parsed = new URL(url)
+  } catch {
+    return url
+  }
+
+  if (options.ignoreHash || options.ignoreQuery) parsed.hash = ''
+  if (options.ignoreQuery) {
+    parsed.search = ''
+  } else if (options.stripTrackingParams) {
+    for (const key of Array.from(parsed.searchParams.keys())) {
+      if (key.startsWith('utm_') || TRACKING_PARAMS.has(key)) parsed.searchParams.delete(key)
+    }
+  }
+  if (options.ignoreTrailingSlash && parsed.pathname.length > 1 && parsed.pathname.endsWith('/')) {
+    parsed.pathname = parsed.pathname.slice(0, -1)
+  }
+
+  const normalized = parsed.toString()
+  return options.ignoreProtocol && (parsed.protocol === 'http:' || parsed.protocol === 'https:')
+    ? normalized.replace(/^https?:/, '')
+    : normalized
+}
+
+// Skip chrome:// URLs, new tab pages, and other special pages
+export function isIgnoredDuplicateUrl(url: string): boolean {
+  return url.startsWith('chrome://') ||
+    url.startsWith('chrome-extension://') ||
+    url === 'about:blank'
+}
+
+// Allowed domains match exactly, or every subdomain when written as *.example.com
+export function isDuplicateAllowed(url: string, options: DuplicateOptions): boolean {
+  if (!options.allowedDomains?.length) return false
+  let hostname: string
+  try {
+    hostname = new URL(url).hostname
+  } catch {
+    return false
+  }
+  return options.allowedDomains.some(domain => {
+    domain = domain.trim().toLowerCase()
+    if (!domain) return false
+    if (domain.startsWith('*.')) return hostname.endsWith(domain.slice(1))
+    return hostname === domain
+  })
+}
+
+// Pick the copy of a page to keep from tabs ordered oldest first. Policies
+// other than oldest fall back to the newest copy.
+export function pickSurvivor(
+  tabs: chrome.tabs.Tab[],
+  policy: DuplicateKeepPolicy,
+  timeSpent: (tabId: number) => number = () => 0
+): chrome.tabs.Tab {
+  const newestFirst = [...tabs].reverse()
+  const timeOf = (tab: chrome.tabs.Tab) => tab.id !== undefined ? timeSpent(tab.id) : 0
+
+  switch (policy) {
+    case 'oldest':
+      return newestFirst[newestFirst.length - 1]
+    case 'pinned':
+      return newestFirst.find(t => t.pinned) || newestFirst[0]
+    case 'grouped':
+      return newestFirst.find(t => t.groupId !== undefined && t.groupId !== chrome.tabGroups.TAB_GROUP_ID_NONE) ||
+        newestFirst[0]
+    case 'most_time':
+      return newestFirst.reduce((best, tab) => timeOf(tab) > timeOf(best) ? tab : best)
+    default:
+      return newestFirst[0]
+  }
+}
+
+// Group tabs that show the same page and decide which copy of each survives
+export function findDuplicates(
+  tabs: chrome.tabs.Tab[],
+  options: DuplicateOptions,
+  policy: DuplicateKeepPolicy,
+  timeSpent?: (tabId: number) => number
+): DuplicateSet[] {
+  const byUrl = new Map<string, chrome.tabs.Tab[]>()
+  for (const tab of tabs) {
+    if (!tab.id || !tab.url || isIgnoredDuplicateUrl(tab.url) || isDuplicateAllowed(tab.url, options)) continue
+    const url = normalizeDuplicateUrl(tab.url, options)
+    byUrl.set(url, [...(byUrl.get(url) || []), tab])
+  }
+
+  const sets: DuplicateSet[] = []
+  byUrl.forEach(copies => {
+    if (copies.length < 2) return
+    // Tab ids grow as tabs are opened, so they give the opening order
+    copies.sort((a, b) => a.id! - b.id!)
+    const keep = pickSurvivor(copies, policy, timeSpent)
+    sets.push({ keep, close: copies.filter(t => t !== keep) })
+  })
+  return sets
+}
+
+// For the popup: duplicates among the given tabs using the duplicate settings
+// and the time spent per tab tracked by the background worker
+export async function findDuplicatesWithSettings(tabs: chrome.tabs.Tab[]): Promise<DuplicateSet[]> {
+  const [settings, activity] = await Promise.all([
+    storage.getSettings(),
+    chrome.runtime.sendMessage({ action: 'getTabActivity' }).catch(() => null)
+  ])
+  const timeSpent: Record<number, number> = activity?.timeSpent || {}
+  return findDuplicates(
+    tabs,
+    duplicateOptionsFromSettings(settings),
+    settings.duplicateKeepPolicy,
+    (tabId) => timeSpent[tabId] || 0
+  )
+}
@@ -0,0 +1,27 @@
+// Short relative time for recent timestamps, falling back to a date
+export function formatTimeAgo(timestamp: number): string {
+  const date = new Date(timestamp)
+  const now = new Date()
+  const diff = now.getTime() - date.getTime()
+  
+  if (diff < 3600000) { // Less than 1 hour
+    const minutes = Math.floor(diff / 60000)
+    return `${minutes}m ago`
+  } else if (diff < 86400000) { // Less than 1 day
+    const hours = Math.floor(diff / 3600000)
+    return `${hours}h ago`
+  } else if (diff < 604800000) { // Less than 1 week
+    const days = Math.floor(diff / 86400000)
+    return `${days}d ago`
+  } else {
+    return date.toLocaleDateString()
+  }
+}
+
+// Local calendar day as YYYY-MM-DD, which sorts in date order
+export function formatDayKey(timestamp: number): string {
+  const date = new Date(timestamp)
+  const month = String(date.getMonth() + 1).padStart(2, '0')
+  const day = String(date.getDate()).padStart(2, '0')
+  return `${date.getFullYear()}-${month}-${day}`
+}
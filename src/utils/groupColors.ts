@@ -0,0 +1,8 @@
+// Colors Chrome offers for tab groups
+export const GROUP_COLORS: chrome.tabGroups.ColorEnum[] = [
+  'grey', 'blue', 'red', 'yellow', 'green', 'pink', 'purple', 'cyan', 'orange'
+]
+
+export function isGroupColor(value: unknown): value is chrome.tabGroups.ColorEnum {
+  return GROUP_COLORS.includes(value as chrome.tabGroups.ColorEnum)
+}
@@ -0,0 +1,203 @@
+import { conditionTakesValue, sortRulesByPriority, validatePattern } from './rules'
+import { isGroupColor } from './groupColors'
+import type { ConditionGroup, ConditionNode, RuleAction, RuleCondition, TabRule } from '@/types'
+
+// Rule packs are JSON files for sharing rules between browsers and people.
+// Bump RULE_PACK_VERSION when the rule format changes incompatibly.
+
+export const RULE_PACK_FORMAT = 'tab-flow-rules'
+export const RULE_PACK_VERSION = 1
+
+export interface RulePack {
+  format: typeof RULE_PACK_FORMAT;
+  version: number;
+  exportedAt: number;
+  rules: TabRule[];
+}
+
+const OPERATORS_BY_CONDITION_TYPE: Record<RuleCondition['type'], readonly RuleCondition['operator'][]> = {
+  url: ['contains', 'equals', 'matches', 'glob', 'match_pattern', 'starts_with', 'ends_with'],
+  title: ['contains', 'equals', 'matches', 'glob', 'starts_with', 'ends_with'],
+  domain: ['contains', 'equals', 'matches', 'glob', 'starts_with', 'ends_with'],
+  time: ['after', 'before', 'between', 'on_days', 'idle_for'],
+  duplicate: ['exact', 'ignore_hash', 'ignore_query'],
+  pinned: ['is', 'is_not'],
+  audible: ['is', 'is_not'],
+  muted: ['is', 'is_not'],
+  incognito: ['is', 'is_not'],
+  group: ['contains', 'equals', 'matches', 'glob', 'starts_with', 'ends_with'],
+  window_type: ['is', 'is_not'],
+  window_id: ['is', 'is_not'],
+  opener_domain: ['contains', 'equals', 'matches', 'glob', 'starts_with', 'ends_with']
+}
+
+const ACTION_TYPES: readonly RuleAction['type'][] = [
+  'group', 'close', 'archive', 'tag', 'pin', 'suspend', 'move_to_window', 'mute', 'unmute',
+  'collapse_group', 'group_color', 'reload', 'bookmark', 'close_after'
+]
+
+export function createRulePack(rules: TabRule[]): RulePack {
+  return {
+    format: RULE_PACK_FORMAT,
+    version: RULE_PACK_VERSION,
+    exportedAt: Date.now(),
+    // Blocked state is specific to the browser the rules came from
+    rules: rules.map(({ blockedReason, ...rule }) => rule)
+  }
+}
+
+// Parse and validate a rule pack. Throws an Error describing the first
+// problem found so it can be shown to the user as-is.
+export function parseRulePack(text: string): TabRule[] {
+  let data: any
+  try {
+    data = JSON.parse(text)
+  } catch {
+    throw new Error('File is not valid JSON')
+  }
+
+  if (!data || data.format !== RULE_PACK_FORMAT) {
+    throw new Error('File is not a Tab Flow rule pack')
+  }
+  if (typeof data.version !== 'number' || data.version > RULE_PACK_VERSION) {
+    throw new Error(`Unsupported rule pack version ${data.version}; update the extension to import it`)
+  }
+  if (!Array.isArray(data.rules)) {
+    throw new Error('Rule pack has no rules')
+  }
+
+  return data.rules.map((rule: any, index: number) => parseRule(rule, `Rule ${index + 1}`))
+}
+
+function parseRule(rule: any, label: string): TabRule {
+  if (!rule || typeof rule !== 'object') throw new Error(`${label} is not an object`)
+  if (typeof rule.name !== 'string' || !rule.name.trim()) throw new Error(`${label} has no name`)
+  label = `Rule "${rule.name}"`
+
+  // Packs exported before nested groups hold a flat condition list
+  const conditions = Array.isArray(rule.conditions)
+    ? { type: 'group', operator: rule.conditionOperator === 'OR' ? 'OR' : 'AND', children: rule.conditions }
+    : rule.conditions
+
+  if (!Array.isArray(rule.actions) || rule.actions.length === 0) {
+    throw new Error(`${label} has no actions`)
+  }
+
+  const now = Date.now()
+  return {
+    id: typeof rule.id === 'string' && rule.id ? rule.id : `rule_${now}`,
+    name: rule.name,
+    enabled: rule.enabled !== false,
+    conditions: parseGroup(conditions, label),
+    actions: rule.actions.map((action: any) => parseAction(action, label)),
+    priority: typeof rule.priority === 'number' ? rule.priority : undefined,
+    stopProcessing: rule.stopProcessing === true || undefined,
+    ...parseScope(rule, label),
+    createdAt: typeof rule.createdAt === 'number' ? rule.createdAt : now,
+    updatedAt: now
+  }
+}
+
+// Workspace ids only mean something in the browser the pack came from, so a
+// workspace scoped rule keeps its id but won't match until it is re-pointed
+function parseScope(rule: any, label: string): Pick<TabRule, 'scope' | 'scopeWorkspaceId'> {
+  if (rule.scope === undefined) return {}
+  if (!['all', 'normal', 'incognito', 'workspace'].includes(rule.scope)) {
+    throw new Error(`${label} uses unknown scope "${rule.scope}"`)
+  }
+  return {
+    scope: rule.scope,
+    scopeWorkspaceId: rule.scope === 'workspace' && typeof rule.scopeWorkspaceId === 'string'
+      ? rule.scopeWorkspaceId
+      : undefined
+  }
+}
+
+function parseGroup(group: any, label: string): ConditionGroup {
+  if (!group || group.type !== 'group' || !Array.isArray(group.children)) {
+    throw new Error(`${label} has invalid conditions`)
+  }
+  if (!['AND', 'OR', 'NOT'].includes(group.operator)) {
+    throw new Error(`${label} uses unknown condition group operator "${group.operator}"`)
+  }
+  if (group.children.length === 0) {
+    throw new Error(`${label} has an empty condition group`)
+  }
+
+  return {
+    type: 'group',
+    operator: group.operator,
+    children: group.children.map((child: any): ConditionNode =>
+      child?.type === 'group' ? parseGroup(child, label) : parseCondition(child, label)
+    )
+  }
+}
+
+function parseCondition(condition: any, label: string): RuleCondition {
+  const operators = OPERATORS_BY_CONDITION_TYPE[condition?.type as RuleCondition['type']]
+  if (!operators) {
+    throw new Error(`${label} uses unknown condition type "${condition?.type}"`)
+  }
+  if (!operators.includes(condition.operator)) {
+    throw new Error(`${label} uses operator "${condition.operator}", which ${condition.type} conditions don't support`)
+  }
+  if (conditionTakesValue(condition) && (typeof condition.value !== 'string' || !condition.value.trim())) {
+    throw new Error(`${label} has a ${condition.type} condition without a value`)
+  }
+  const patternError = validatePattern(condition.operator, condition.value)
+  if (patternError) {
+    throw new Error(`${label} has an invalid ${condition.operator.replace(/_/g, ' ')} "${condition.value}": ${patternError}`)
+  }
+
+  return {
+    type: condition.type,
+    operator: condition.operator,
+    value: typeof condition.value === 'string' ? condition.value : '',
+    caseSensitive: condition.caseSensitive === true || undefined
+  }
+}
+
+function parseAction(action: any, label: string): RuleAction {
+  if (!ACTION_TYPES.includes(action?.type)) {
+    throw new Error(`${label} uses unknown action type "${action?.type}"`)
+  }
+  if (action.value !== undefined && typeof action.value !== 'string') {
+    throw new Error(`${label} has a ${action.type} action with an invalid value`)
+  }
+  if ((action.type === 'tag' || action.type === 'bookmark') && !action.value?.trim()) {
+    throw new Error(`${label} has a ${action.type} action without a ${action.type === 'tag' ? 'tag' : 'folder'}`)
+  }
+  if (action.type === 'group_color' && !isGroupColor(action.value)) {
+    throw new Error(`${label} uses unknown group color "${action.value}"`)
+  }
+  if (action.type === 'close_after' && !(Number(action.value) > 0)) {
+    throw new Error(`${label} has a close_after action without a number of minutes`)
+  }
+
+  if (action.color !== undefined && (action.type !== 'group' || !isGroupColor(action.color))) {
+    throw new Error(`${label} has a ${action.type} action with an invalid color "${action.color}"`)
+  }
+
+  return { type: action.type, value: action.value, color: action.color }
+}
+
+// Combine imported rules with the existing ones. Merging keeps existing rules
+// and appends the imported ones after them; replacing drops existing rules.
+// Imported ids that collide with a kept rule, or with each other, are regenerated.
+export function combineRules(existing: TabRule[], imported: TabRule[], mode: 'merge' | 'replace'): TabRule[] {
+  const kept = mode === 'merge' ? existing : []
+  const usedIds = new Set(kept.map(r => r.id))
+  const basePriority = kept.reduce((max, r) => Math.max(max, (r.priority ?? -1) + 1), kept.length)
+
+  // Keep the pack's own ordering but place it after the kept rules
+  const added = sortRulesByPriority(imported).map((rule, index) => {
+    let id = rule.id
+    while (usedIds.has(id)) {
+      id = `rule_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`
+    }
+    usedIds.add(id)
+    return { ...rule, id, priority: basePriority + index }
+  })
+
+  return [...kept, ...added]
+}
@@ -0,0 +1,456 @@
+import { storage } from './storage'
+import { isIgnoredDuplicateUrl, normalizeDuplicateUrl } from './duplicates'
+import { savedGroupId, workspaceGroups } from './workspaces'
+import type { ConditionGroup, ConditionNode, RuleCondition, TabInfo, TabRule, Workspace, WorkspaceWindowIds } from '@/types'
+
+// Rule condition matching, shared by the background worker and rule previews
+
+export interface RuleContext {
+  // Every open tab, used by duplicate conditions (queried when omitted)
+  openTabs?: chrome.tabs.Tab[]
+  // Last activation time per tab as tracked by the background worker
+  lastAccessed?: (tabId: number) => number | undefined
+  // Saved workspaces, used by workspace scoped rules (read from storage when omitted)
+  workspaces?: Workspace[]
+  // Windows each workspace was opened into or saved from (read from storage when omitted)
+  workspaceWindowIds?: WorkspaceWindowIds
+}
+
+// Tab details that take an extra API call, looked up only when a rule needs them
+interface TabDetails {
+  groupName?: string
+  windowType?: string
+  openerUrl?: string
+}
+
+const STATE_CONDITION_TYPES: readonly RuleCondition['type'][] = ['pinned', 'audible', 'muted', 'incognito']
+
+// Whether a condition needs a value to be filled in
+export function conditionTakesValue(condition: RuleCondition): boolean {
+  return condition.type !== 'duplicate' && !STATE_CONDITION_TYPES.includes(condition.type)
+}
+
+export function hasTimeCondition(rule: TabRule): boolean {
+  return collectConditions(rule.conditions).some(c => c.type === 'time')
+}
+
+// Order rules by priority, the order they are evaluated in
+export function sortRulesByPriority(rules: TabRule[]): TabRule[] {
+  const rank = (rule: TabRule) => rule.priority ?? Number.MAX_SAFE_INTEGER
+  return [...rules].sort((a, b) => rank(a) - rank(b) || a.createdAt - b.createdAt)
+}
+
+export interface RuleConflict {
+  ruleIds: [string, string];
+  groups: [string, string];
+  tabCount: number;
+}
+
+// Find pairs of enabled rules that would move the same open tab into
+// different groups, honoring priority order and stop-processing rules
+export async function findRuleConflicts(
+  rules: TabRule[],
+  tabs: chrome.tabs.Tab[],
+  context: RuleContext = {}
+): Promise<RuleConflict[]> {
+  const enabledRules = sortRulesByPriority(rules.filter(r => r.enabled && !r.blockedReason))
+  const groupRules = enabledRules.filter(r => r.actions.some(a => a.type === 'group'))
+  if (groupRules.length < 2) return []
+
+  const resolved: RuleContext = { ...context, openTabs: context.openTabs || tabs }
+  const conflicts = new Map<string, RuleConflict>()
+
+  for (const tab of tabs) {
+    const routes: Array<{ ruleId: string; group: string }> = []
+    for (const rule of enabledRules) {
+      let matched = false
+      try {
+        matched = await matchesRule(tab, rule, resolved)
+      } catch {
+        continue
+      }
+      if (!matched) continue
+      for (const action of rule.actions) {
+        if (action.type === 'group') {
+          routes.push({ ruleId: rule.id, group: action.value || 'Auto-grouped' })
+        }
+      }
+      if (rule.stopProcessing) break
+    }
+
+    for (let i = 0; i < routes.length; i++) {
+      for (let j = i + 1; j < routes.length; j++) {
+        const [a, b] = [routes[i], routes[j]]
+        if (a.ruleId === b.ruleId || a.group === b.group) continue
+        const key = `${a.ruleId}:${b.ruleId}`
+        const existing = conflicts.get(key)
+        if (existing) {
+          existing.tabCount++
+        } else {
+          conflicts.set(key, { ruleIds: [a.ruleId, b.ruleId], groups: [a.group, b.group], tabCount: 1 })
+        }
+      }
+    }
+  }
+
+  return Array.from(conflicts.values())
+}
+
+// Check if a tab is in the rule's scope and matches its conditions
+export async function matchesRule(tab: chrome.tabs.Tab, rule: TabRule, context: RuleContext = {}): Promise<boolean> {
+  return await matchesScope(tab, rule, context) && await matchesConditions(tab, rule.conditions, context)
+}
+
+async function matchesScope(tab: chrome.tabs.Tab, rule: TabRule, context: RuleContext): Promise<boolean> {
+  switch (rule.scope) {
+    case 'normal':
+      return !tab.incognito
+    case 'incognito':
+      return tab.incognito
+    case 'workspace': {
+      const workspaces = context.workspaces || await storage.getWorkspaces()
+      const workspace = workspaces.find(w => w.id === rule.scopeWorkspaceId)
+      if (!workspace) return false
+      const windowIds = context.workspaceWindowIds || await storage.getWorkspaceWindowIds()
+      if (windowIds[workspace.id]?.includes(tab.windowId)) return true
+      // Saved groups are linked to open groups by id (g_<groupId>) or by name
+      const groups = await chrome.tabGroups.query({ windowId: tab.windowId })
+      return groups.some(g => workspaceGroups(workspace).some(saved =>
+        saved.id === savedGroupId(g.id) || (!!g.title && g.title === saved.name)
+      ))
+    }
+    default:
+      return true
+  }
+}
+
+// Check if tab matches a rule's condition tree
+export async function matchesConditions(
+  tab: chrome.tabs.Tab,
+  conditions: ConditionGroup,
+  context: RuleContext = {}
+): Promise<boolean> {
+  // Duplicate conditions compare against every open tab
+  const leaves = collectConditions(conditions)
+  const needsOpenTabs = !context.openTabs && leaves.some(c => c.type === 'duplicate')
+  const resolved: RuleContext = needsOpenTabs ? { ...context, openTabs: await chrome.tabs.query({}) } : context
+  const details = await resolveTabDetails(tab, leaves)
+
+  return matchesGroup(tab, conditions, resolved, details)
+}
+
+async function resolveTabDetails(tab: chrome.tabs.Tab, conditions: RuleCondition[]): Promise<TabDetails> {
+  const types = new Set(conditions.map(c => c.type))
+  const details: TabDetails = {}
+
+  if (types.has('group') && tab.groupId !== undefined && tab.groupId >= 0) {
+    const group = await chrome.tabGroups.get(tab.groupId).catch(() => null)
+    details.groupName = group?.title
+  }
+  if (types.has('window_type')) {
+    const window = await chrome.windows.get(tab.windowId).catch(() => null)
+    details.windowType = window?.type
+  }
+  // The opener may have been closed since; its domain is then unknown
+  if (types.has('opener_domain') && tab.openerTabId !== undefined) {
+    const opener = await chrome.tabs.get(tab.openerTabId).catch(() => null)
+    details.openerUrl = opener?.url || opener?.pendingUrl
+  }
+
+  return details
+}
+
+export function isConditionGroup(node: ConditionNode): node is ConditionGroup {
+  return node.type === 'group'
+}
+
+// Flatten a condition tree into its leaf conditions
+export function collectConditions(group: ConditionGroup): RuleCondition[] {
+  return group.children.flatMap(child => isConditionGroup(child) ? collectConditions(child) : [child])
+}
+
+function matchesGroup(tab: chrome.tabs.Tab, group: ConditionGroup, context: RuleContext, details: TabDetails): boolean {
+  const matches = (node: ConditionNode) => isConditionGroup(node)
+    ? matchesGroup(tab, node, context, details)
+    : matchesCondition(tab, node, context, details)
+
+  switch (group.operator) {
+    case 'OR':
+      return group.children.some(matches)
+    case 'NOT':
+      return !group.children.some(matches)
+    default:
+      return group.children.every(matches)
+  }
+}
+
+// Check a single condition against a tab
+function matchesCondition(tab: chrome.tabs.Tab, condition: RuleCondition, context: RuleContext, details: TabDetails): boolean {
+  switch (condition.type) {
+    case 'url':
+      return matchesPattern(tab.url || '', condition.operator, condition.value, condition.caseSensitive)
+    case 'title':
+      return matchesPattern(tab.title || '', condition.operator, condition.value, condition.caseSensitive)
+    case 'domain':
+      const domain = tab.url ? new URL(tab.url).hostname : ''
+      return matchesPattern(domain, condition.operator, condition.value, condition.caseSensitive)
+    case 'time':
+      return matchesTime(tab, condition.operator, condition.value, context)
+    case 'duplicate':
+      return isDuplicateOf(tab, context.openTabs || [], condition.operator)
+    case 'pinned':
+      return matchesState(tab.pinned, condition.operator)
+    case 'audible':
+      return matchesState(!!tab.audible, condition.operator)
+    case 'muted':
+      return matchesState(!!tab.mutedInfo?.muted, condition.operator)
+    case 'incognito':
+      return matchesState(tab.incognito, condition.operator)
+    case 'group':
+      // Ungrouped tabs have no name to match against
+      return details.groupName !== undefined &&
+        matchesPattern(details.groupName, condition.operator, condition.value, condition.caseSensitive)
+    case 'window_type':
+      return matchesState(details.windowType === condition.value, condition.operator)
+    case 'window_id':
+      return matchesState(String(tab.windowId) === condition.value.trim(), condition.operator)
+    case 'opener_domain':
+      return !!details.openerUrl &&
+        matchesPattern(hostnameOf(details.openerUrl), condition.operator, condition.value, condition.caseSensitive)
+    default:
+      return false
+  }
+}
+
+function matchesState(state: boolean, operator: string): boolean {
+  return operator === 'is_not' ? !state : state
+}
+
+function hostnameOf(url: string): string {
+  try {
+    return new URL(url).hostname
+  } catch {
+    return ''
+  }
+}
+
+// Duplicate condition helper: another open tab has the same normalized URL
+function isDuplicateOf(tab: chrome.tabs.Tab, openTabs: chrome.tabs.Tab[], mode: string): boolean {
+  if (!tab.url || isIgnoredDuplicateUrl(tab.url)) return false
+  const options = { ignoreHash: mode === 'ignore_hash', ignoreQuery: mode === 'ignore_query' }
+  const url = normalizeDuplicateUrl(tab.url, options)
+  return openTabs.some(t => t.id !== tab.id && !!t.url && normalizeDuplicateUrl(t.url, options) === url)
+}
+
+// Time condition helper
+function matchesTime(tab: chrome.tabs.Tab, operator: string, value: string, context: RuleContext): boolean {
+  const now = new Date()
+  const minutesNow = now.getHours() * 60 + now.getMinutes()
+
+  switch (operator) {
+    case 'after': {
+      const time = parseTimeOfDay(value)
+      return time !== null && minutesNow >= time
+    }
+    case 'before': {
+      const time = parseTimeOfDay(value)
+      return time !== null && minutesNow < time
+    }
+    case 'between': {
+      const [from, to] = value.split('-').map(v => parseTimeOfDay(v))
+      if (from == null || to == null) return false
+      // Windows like 22:00-06:00 wrap around midnight
+      return from <= to
+        ? minutesNow >= from && minutesNow < to
+        : minutesNow >= from || minutesNow < to
+    }
+    case 'on_days': {
+      const today = DAY_NAMES[now.getDay()]
+      return value.toLowerCase().split(',').map(d => d.trim().slice(0, 3)).includes(today)
+    }
+    case 'idle_for': {
+      const minutes = Number(value)
+      // The active tab is being looked at, so it is never idle
+      if (!tab.id || tab.active || !Number.isFinite(minutes)) return false
+      const lastAccessed = context.lastAccessed?.(tab.id) ?? (tab as TabInfo).lastAccessed
+      if (!lastAccessed) return false
+      return Date.now() - lastAccessed >= minutes * 60 * 1000
+    }
+    default:
+      return false
+  }
+}
+
+const DAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat']
+
+// Parse "HH:MM" into minutes since midnight
+function parseTimeOfDay(value: string): number | null {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value.trim())
+  if (!match) return null
+  const hours = Number(match[1])
+  const minutes = Number(match[2])
+  if (hours > 23 || minutes > 59) return null
+  return hours * 60 + minutes
+}
+
+// Pattern matching helper
+function matchesPattern(text: string, operator: string, pattern: string, caseSensitive?: boolean): boolean {
+  if (PATTERN_OPERATORS.includes(operator)) {
+    // Invalid patterns never match rather than throwing on every tab event
+    return getCompiledPattern(operator, pattern, caseSensitive)?.test(text.slice(0, MAX_MATCHED_TEXT_LENGTH)) ?? false
+  }
+
+  const compareText = caseSensitive ? text : text.toLowerCase()
+  const comparePattern = caseSensitive ? pattern : pattern.toLowerCase()
+
+  switch (operator) {
+    case 'contains':
+      return compareText.includes(comparePattern)
+    case 'equals':
+      return compareText === comparePattern
+    case 'starts_with':
+      return compareText.startsWith(comparePattern)
+    case 'ends_with':
+      return compareText.endsWith(comparePattern)
+    default:
+      return false
+  }
+}
+
+const PATTERN_OPERATORS: readonly string[] = ['matches', 'glob', 'match_pattern']
+
+// Regexes run in the worker on every tab update, so they're kept short and
+// only matched against the start of long URLs (data: URLs can be megabytes)
+const MAX_REGEX_LENGTH = 200
+const MAX_MATCHED_TEXT_LENGTH = 2048
+
+// Compiled matchers by operator, flags and pattern. Rules are matched on every
+// tab update, so patterns are compiled once per worker lifetime.
+const compiledPatterns = new Map<string, RegExp | null>()
+const MAX_COMPILED_PATTERNS = 500
+
+function getCompiledPattern(operator: string, pattern: string, caseSensitive?: boolean): RegExp | null {
+  const key = `${operator}|${caseSensitive ? 'cs' : 'ci'}|${pattern}`
+  let compiled = compiledPatterns.get(key)
+  if (compiled === undefined) {
+    try {
+      compiled = compilePattern(operator, pattern, caseSensitive)
+    } catch {
+      compiled = null
+    }
+    if (compiledPatterns.size >= MAX_COMPILED_PATTERNS) compiledPatterns.clear()
+    compiledPatterns.set(key, compiled)
+  }
+  return compiled
+}
+
+// Check a pattern operator's value. Returns an error message, or null when the
+// pattern compiles (or the operator doesn't take a pattern).
+export function validatePattern(operator: string, pattern: string): string | null {
+  if (!PATTERN_OPERATORS.includes(operator)) return null
+  try {
+    compilePattern(operator, pattern)
+    return null
+  } catch (e) {
+    return e instanceof Error ? e.message : String(e)
+  }
+}
+
+function compilePattern(operator: string, pattern: string, caseSensitive?: boolean): RegExp {
+  const flags = caseSensitive ? '' : 'i'
+  switch (operator) {
+    case 'matches':
+      assertSafeRegExp(pattern)
+      return new RegExp(pattern, flags)
+    case 'glob':
+      return new RegExp(`^${pattern.split('').map(c => c === '*' ? '.*' : c === '?' ? '.' : escapeRegExp(c)).join('')}$`, flags)
+    case 'match_pattern':
+      return compileMatchPattern(pattern.trim(), flags)
+    default:
+      throw new Error(`Unknown pattern operator "${operator}"`)
+  }
+}
+
+// Reject regexes that can backtrack catastrophically: a repeated group that
+// itself contains a repeat or an alternation, like (a+)+, (a|aa)+ or (.*a){25}.
+// Backreferences are rejected too, since they can't be matched in linear time.
+function assertSafeRegExp(pattern: string) {
+  if (pattern.length > MAX_REGEX_LENGTH) {
+    throw new Error(`Keep regular expressions under ${MAX_REGEX_LENGTH} characters`)
+  }
+
+  // What each open group contains so far; the first entry is the whole pattern
+  const groups: Array<{ repeats: boolean; alternates: boolean }> = [{ repeats: false, alternates: false }]
+  for (let i = 0; i < pattern.length; i++) {
+    const c = pattern[i]
+    const current = groups[groups.length - 1]
+    if (c === '\\') {
+      const next = pattern[i + 1] || ''
+      if (/[1-9]/.test(next) || (next === 'k' && pattern[i + 2] === '<')) {
+        throw new Error('Backreferences like \\1 aren\'t supported')
+      }
+      i++
+    } else if (c === '[') {
+      // Skip the character class; quantifiers inside it are literal
+      for (i++; i < pattern.length && pattern[i] !== ']'; i++) {
+        if (pattern[i] === '\\') i++
+      }
+    } else if (c === '(') {
+      groups.push({ repeats: false, alternates: false })
+    } else if (c === ')' && groups.length > 1) {
+      const group = groups.pop()!
+      const repeated = isRepeat(pattern, i + 1)
+      if (repeated && group.repeats) {
+        throw new Error('Nested repeats like (a+)+ can freeze the browser; simplify the pattern')
+      }
+      if (repeated && group.alternates) {
+        throw new Error('Repeated alternatives like (a|b)+ can freeze the browser; use a character class like [ab]+')
+      }
+      const parent = groups[groups.length - 1]
+      parent.repeats = parent.repeats || group.repeats || repeated
+      parent.alternates = parent.alternates || group.alternates
+    } else if (c === '|') {
+      current.alternates = true
+    } else if (isRepeat(pattern, i)) {
+      current.repeats = true
+    }
+  }
+}
+
+// A quantifier that repeats the preceding atom: *, + or any {n}, {n,} or {n,m}
+function isRepeat(pattern: string, index: number): boolean {
+  const c = pattern[index]
+  return c === '*' || c === '+' || (c === '{' && /^\{\d+(,\d*)?\}/.test(pattern.slice(index)))
+}
+
+// Chrome match patterns: <scheme>://<host><path>. A * scheme means http or
+// https, a *.example.com host also matches example.com itself, and a host
+// without a port matches any port.
+// https://developer.chrome.com/docs/extensions/develop/concepts/match-patterns
+function compileMatchPattern(pattern: string, flags: string): RegExp {
+  if (pattern === '<all_urls>') return /^(https?|wss?|ftp|file):\/\//
+
+  const match = /^(\*|[a-z][a-z0-9+.-]*):\/\/([^/]*)(\/.*)$/i.exec(pattern)
+  if (!match) throw new Error('Use scheme://host/path, e.g. *://*.example.com/*')
+
+  const [, scheme, host, path] = match
+  if (!host && scheme !== 'file') throw new Error('Match pattern needs a host, or * for any host')
+  if (host.includes('*') && host !== '*' && !/^\*\.[^*]+$/.test(host)) {
+    throw new Error('* in the host must be the whole host or come first, as in *.example.com')
+  }
+
+  const schemePart = scheme === '*' ? 'https?' : escapeRegExp(scheme)
+  const hostPart = host === '*'
+    ? '[^/]*'
+    : host.startsWith('*.')
+      ? `([^/]+\\.)?${escapeRegExp(host.slice(2))}`
+      : escapeRegExp(host)
+  const portPart = host.includes(':') ? '' : '(:\\d+)?'
+  const pathPart = path.split('*').map(escapeRegExp).join('.*')
+
+  return new RegExp(`^${schemePart}://${hostPart}${portPart}${pathPart}$`, flags)
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
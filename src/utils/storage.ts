@@ -1,4 +1,5 @@
-import type { Settings, TabRule, Workspace } from '@/types'
+import { formatDayKey } from './format'
+import type { DeclinedGroupMatches, DomainTime, GroupColors, GroupMatchPrompt, RemovedTab, RuleCondition, RuleLogEntry, RuleStats, ScheduledCloses, Settings, SnapshotWindow, TabActivity, TabGroup, TabInfo, TabRule, TabTags, Workspace, WorkspaceHistory, WorkspaceSnapshot, WorkspaceWindow, WorkspaceWindowIds } from '@/types'
 
 const STORAGE_KEYS = {
   SETTINGS: 'settings',
@@ -8,8 +9,30 @@ const STORAGE_KEYS = {
   TAB_STATS: 'tabStats',
   ARCHIVED_TABS: 'archivedTabs',
   PREVIOUS_TAB_ID: 'previousTabId',
+  TAB_TAGS: 'tabTags',
+  RULE_LOG: 'ruleLog',
+  RULE_STATS: 'ruleStats',
+  SCHEDULED_CLOSES: 'scheduledCloses',
+  GROUP_COLORS: 'groupColors',
+  UNDO_JOURNAL: 'undoJournal',
+  TAB_ACTIVITY: 'tabActivity',
+  DOMAIN_TIME: 'domainTime',
+  GROUP_LINKS_CHECKED: 'groupLinksChecked',
+  GROUP_MATCH_PROMPTS: 'groupMatchPrompts',
+  DECLINED_GROUP_MATCHES: 'declinedGroupMatches',
+  WORKSPACE_HISTORY: 'workspaceHistory',
+  WORKSPACE_WINDOWS: 'workspaceWindows',
 } as const
 
+const MAX_RULE_LOG_ENTRIES = 200
+// The last pending rule log write; the next one chains onto it
+let ruleLogWrites: Promise<void> = Promise.resolve()
+const MAX_UNDO_ENTRIES = 100
+const UNDO_TTL_MS = 10 * 60 * 1000
+const DOMAIN_TIME_DAYS = 31
+const MAX_STASHED_WORKSPACES = 10
+const MAX_WORKSPACE_SNAPSHOTS = 50
+
 export const storage = {
   async getSettings(): Promise<Settings> {
     const result = await chrome.storage.sync.get(STORAGE_KEYS.SETTINGS)
@@ -30,7 +53,8 @@ export const storage = {
 
   async getWorkspaces(): Promise<Workspace[]> {
     const result = await chrome.storage.local.get(STORAGE_KEYS.WORKSPACES)
-    return result[STORAGE_KEYS.WORKSPACES] || []
+    const workspaces: Workspace[] = result[STORAGE_KEYS.WORKSPACES] || []
+    return workspaces.map(normalizeWorkspace)
   },
 
   async saveWorkspace(workspace: Workspace): Promise<void> {
@@ -38,6 +62,8 @@ export const storage = {
     const index = workspaces.findIndex(w => w.id === workspace.id)
     
     if (index >= 0) {
+      // History is a convenience; running out of room for it mustn't stop the save
+      await this.addWorkspaceSnapshot(workspaces[index], workspace).catch(console.error)
       workspaces[index] = workspace
     } else {
       workspaces.push(workspace)
@@ -46,28 +72,82 @@ export const storage = {
     await chrome.storage.local.set({ [STORAGE_KEYS.WORKSPACES]: workspaces })
   },
 
-  async saveOrUpdateWorkspaceByName(workspace: Workspace): Promise<void> {
-    const workspaces = await this.getWorkspaces()
-    const index = workspaces.findIndex(w => w.name === workspace.name)
-    
-    if (index >= 0) {
-      // Update existing workspace with the same name
-      workspaces[index] = {
-        ...workspace,
-        id: workspaces[index].id, // Keep the original ID
-        createdAt: workspaces[index].createdAt // Keep original creation time
-      }
-    } else {
-      workspaces.push(workspace)
+  async getWorkspaceHistory(workspaceId: string): Promise<WorkspaceSnapshot[]> {
+    const result = await chrome.storage.local.get(STORAGE_KEYS.WORKSPACE_HISTORY)
+    const history: WorkspaceHistory = result[STORAGE_KEYS.WORKSPACE_HISTORY] || {}
+    return history[workspaceId] || []
+  },
+
+  // Keep the version a save is about to replace when the save changes its
+  // tabs. Renames and color changes don't count.
+  async addWorkspaceSnapshot(previous: Workspace, next: Workspace): Promise<void> {
+    if (sameTabs(previous.windows, next.windows)) return
+
+    const result = await chrome.storage.local.get(STORAGE_KEYS.WORKSPACE_HISTORY)
+    const history: WorkspaceHistory = result[STORAGE_KEYS.WORKSPACE_HISTORY] || {}
+    const snapshots = history[previous.id] || []
+    const now = Date.now()
+
+    const snapshot: WorkspaceSnapshot = {
+      id: `snap_${now}`,
+      name: previous.name,
+      windows: previous.windows.map(compactWindow),
+      savedAt: previous.updatedAt,
+      replacedAt: now
     }
-    
-    await chrome.storage.local.set({ [STORAGE_KEYS.WORKSPACES]: workspaces })
+    await chrome.storage.local.set({
+      [STORAGE_KEYS.WORKSPACE_HISTORY]: {
+        ...history,
+        [previous.id]: [snapshot, ...snapshots].slice(0, MAX_WORKSPACE_SNAPSHOTS)
+      }
+    })
+  },
+
+  // Put a snapshot's tabs back. The version it replaces is kept as a
+  // snapshot like any other save, so a restore can be undone.
+  async restoreWorkspaceSnapshot(workspaceId: string, snapshotId: string): Promise<void> {
+    const [workspaces, snapshots] = await Promise.all([
+      this.getWorkspaces(),
+      this.getWorkspaceHistory(workspaceId)
+    ])
+    const workspace = workspaces.find(w => w.id === workspaceId)
+    const snapshot = snapshots.find(s => s.id === snapshotId)
+    if (!workspace || !snapshot) return
+
+    // A saved group keeps its current link to an open group; the snapshot's
+    // may point at a group id from before a browser restart
+    const linkId = workspace.kind === 'group' ? workspace.windows[0]?.groups[0]?.id : undefined
+    // Saved tabs are only opened and listed, which needs no more than a snapshot keeps
+    const windows = snapshot.windows.map(w => ({
+      ...w,
+      tabs: w.tabs as TabInfo[],
+      groups: linkId ? w.groups.map(g => ({ ...g, id: linkId })) : w.groups
+    }))
+
+    await this.saveWorkspace({ ...workspace, windows, updatedAt: Date.now() })
+  },
+
+  // Save a stash, keeping only the most recent ones
+  async saveStash(workspace: Workspace): Promise<void> {
+    const workspaces = [...await this.getWorkspaces(), { ...workspace, stashed: true }]
+    const stashes = workspaces.filter(w => w.stashed).sort((a, b) => b.createdAt - a.createdAt)
+    const dropped = new Set(stashes.slice(MAX_STASHED_WORKSPACES).map(w => w.id))
+    await chrome.storage.local.set({
+      [STORAGE_KEYS.WORKSPACES]: workspaces.filter(w => !dropped.has(w.id))
+    })
   },
 
   async deleteWorkspace(id: string): Promise<void> {
-    const workspaces = await this.getWorkspaces()
+    const [workspaces, result] = await Promise.all([
+      this.getWorkspaces(),
+      chrome.storage.local.get(STORAGE_KEYS.WORKSPACE_HISTORY)
+    ])
     const filtered = workspaces.filter(w => w.id !== id)
-    await chrome.storage.local.set({ [STORAGE_KEYS.WORKSPACES]: filtered })
+    const { [id]: _removed, ...history }: WorkspaceHistory = result[STORAGE_KEYS.WORKSPACE_HISTORY] || {}
+    await chrome.storage.local.set({
+      [STORAGE_KEYS.WORKSPACES]: filtered,
+      [STORAGE_KEYS.WORKSPACE_HISTORY]: history
+    })
   },
 
   async getActiveWorkspace(): Promise<string | null> {
@@ -81,7 +161,8 @@ export const storage = {
 
   async getTabRules(): Promise<TabRule[]> {
     const result = await chrome.storage.sync.get(STORAGE_KEYS.TAB_RULES)
-    return result[STORAGE_KEYS.TAB_RULES] || []
+    const rules: TabRule[] = result[STORAGE_KEYS.TAB_RULES] || []
+    return rules.map(normalizeTabRule)
   },
 
   async saveTabRule(rule: TabRule): Promise<void> {
@@ -97,10 +178,56 @@ export const storage = {
     await chrome.storage.sync.set({ [STORAGE_KEYS.TAB_RULES]: rules })
   },
 
+  async saveTabRules(rules: TabRule[]): Promise<void> {
+    await chrome.storage.sync.set({ [STORAGE_KEYS.TAB_RULES]: rules })
+  },
+
   async deleteTabRule(id: string): Promise<void> {
     const rules = await this.getTabRules()
     const filtered = rules.filter(r => r.id !== id)
     await chrome.storage.sync.set({ [STORAGE_KEYS.TAB_RULES]: filtered })
+
+    const stats = await this.getRuleStats()
+    if (stats[id]) {
+      delete stats[id]
+      await chrome.storage.local.set({ [STORAGE_KEYS.RULE_STATS]: stats })
+    }
+  },
+
+  async getRuleLog(): Promise<RuleLogEntry[]> {
+    const result = await chrome.storage.local.get(STORAGE_KEYS.RULE_LOG)
+    return result[STORAGE_KEYS.RULE_LOG] || []
+  },
+
+  async getRuleStats(): Promise<Record<string, RuleStats>> {
+    const result = await chrome.storage.local.get(STORAGE_KEYS.RULE_STATS)
+    return result[STORAGE_KEYS.RULE_STATS] || {}
+  },
+
+  // Append to the execution log (newest first, capped) and bump the rule's hit count
+  // Rules run for several tabs at once, so each read-modify-write of the log
+  // waits for the one before it rather than overwriting it
+  async recordRuleExecution(entry: RuleLogEntry): Promise<void> {
+    const write = ruleLogWrites.then(async () => {
+      const [log, stats] = await Promise.all([this.getRuleLog(), this.getRuleStats()])
+      const previous = stats[entry.ruleId]
+      await chrome.storage.local.set({
+        [STORAGE_KEYS.RULE_LOG]: [entry, ...log].slice(0, MAX_RULE_LOG_ENTRIES),
+        [STORAGE_KEYS.RULE_STATS]: {
+          ...stats,
+          [entry.ruleId]: {
+            hitCount: (previous?.hitCount || 0) + 1,
+            lastFiredAt: entry.timestamp
+          }
+        }
+      })
+    })
+    ruleLogWrites = write.catch(() => {})
+    await write
+  },
+
+  async clearRuleLog(): Promise<void> {
+    await chrome.storage.local.set({ [STORAGE_KEYS.RULE_LOG]: [] })
   },
 
   async getPreviousTabId(): Promise<number | null> {
@@ -111,6 +238,227 @@ export const storage = {
   async setPreviousTabId(tabId: number | null): Promise<void> {
     await chrome.storage.local.set({ [STORAGE_KEYS.PREVIOUS_TAB_ID]: tabId })
   },
+
+  async getTabTags(): Promise<TabTags> {
+    const result = await chrome.storage.local.get(STORAGE_KEYS.TAB_TAGS)
+    return result[STORAGE_KEYS.TAB_TAGS] || {}
+  },
+
+  async setTabTags(tags: TabTags): Promise<void> {
+    await chrome.storage.local.set({ [STORAGE_KEYS.TAB_TAGS]: tags })
+  },
+
+  async addTabTag(tabId: number, url: string, tag: string): Promise<void> {
+    const tags = await this.getTabTags()
+    const existing = tags[tabId]?.tags || []
+    if (existing.includes(tag)) return
+    tags[tabId] = { url, tags: [...existing, tag] }
+    await this.setTabTags(tags)
+  },
+
+  async mergeTabTags(entries: TabTags): Promise<void> {
+    if (Object.keys(entries).length === 0) return
+    const tags = await this.getTabTags()
+    await this.setTabTags({ ...tags, ...entries })
+  },
+
+  async removeTabTags(tabId: number): Promise<void> {
+    const tags = await this.getTabTags()
+    if (!tags[tabId]) return
+    delete tags[tabId]
+    await this.setTabTags(tags)
+  },
+
+  async getScheduledCloses(): Promise<ScheduledCloses> {
+    const result = await chrome.storage.local.get(STORAGE_KEYS.SCHEDULED_CLOSES)
+    return result[STORAGE_KEYS.SCHEDULED_CLOSES] || {}
+  },
+
+  async setScheduledCloses(closes: ScheduledCloses): Promise<void> {
+    await chrome.storage.local.set({ [STORAGE_KEYS.SCHEDULED_CLOSES]: closes })
+  },
+
+  // The undo journal lives in session storage: window ids, which it restores
+  // into, don't survive a browser restart
+  async getUndoJournal(): Promise<RemovedTab[]> {
+    const result = await chrome.storage.session.get(STORAGE_KEYS.UNDO_JOURNAL)
+    const journal: RemovedTab[] = result[STORAGE_KEYS.UNDO_JOURNAL] || []
+    const cutoff = Date.now() - UNDO_TTL_MS
+    return journal.filter(entry => entry.removedAt > cutoff)
+  },
+
+  async addToUndoJournal(entries: RemovedTab[]): Promise<void> {
+    const journal = await this.getUndoJournal()
+    await chrome.storage.session.set({
+      [STORAGE_KEYS.UNDO_JOURNAL]: [...entries, ...journal].slice(0, MAX_UNDO_ENTRIES)
+    })
+  },
+
+  // Remove a batch from the journal and return its entries. Defaults to the
+  // most recent batch.
+  async takeUndoBatch(batchId?: string): Promise<RemovedTab[]> {
+    const journal = await this.getUndoJournal()
+    const id = batchId ?? journal[0]?.batchId
+    if (!id) return []
+    await chrome.storage.session.set({
+      [STORAGE_KEYS.UNDO_JOURNAL]: journal.filter(entry => entry.batchId !== id)
+    })
+    return journal.filter(entry => entry.batchId === id)
+  },
+
+  // Session storage like the undo journal: tab ids are reassigned after a
+  // browser restart, so activity only means something within one session
+  async getTabActivity(): Promise<TabActivity | null> {
+    const result = await chrome.storage.session.get(STORAGE_KEYS.TAB_ACTIVITY)
+    return result[STORAGE_KEYS.TAB_ACTIVITY] ?? null
+  },
+
+  async setTabActivity(activity: TabActivity): Promise<void> {
+    await chrome.storage.session.set({ [STORAGE_KEYS.TAB_ACTIVITY]: activity })
+  },
+
+  // Chrome group ids are reassigned after a browser restart. This flag lives
+  // in session storage, so its absence means saved group links need checking.
+  async getGroupLinksChecked(): Promise<boolean> {
+    const result = await chrome.storage.session.get(STORAGE_KEYS.GROUP_LINKS_CHECKED)
+    return result[STORAGE_KEYS.GROUP_LINKS_CHECKED] === true
+  },
+
+  async setGroupLinksChecked(): Promise<void> {
+    await chrome.storage.session.set({ [STORAGE_KEYS.GROUP_LINKS_CHECKED]: true })
+  },
+
+  // Session storage: window ids are reassigned after a browser restart
+  async getWorkspaceWindowIds(): Promise<WorkspaceWindowIds> {
+    const result = await chrome.storage.session.get(STORAGE_KEYS.WORKSPACE_WINDOWS)
+    return result[STORAGE_KEYS.WORKSPACE_WINDOWS] || {}
+  },
+
+  // Record that windows show a workspace. With `exclusive` they stop counting
+  // as showing any other workspace, as when a switch replaces their tabs.
+  async addWorkspaceWindowIds(workspaceId: string, windowIds: number[], exclusive: boolean): Promise<void> {
+    const current = await this.getWorkspaceWindowIds()
+    const next: WorkspaceWindowIds = {}
+    for (const [id, ids] of Object.entries(current)) {
+      next[id] = exclusive ? ids.filter(windowId => !windowIds.includes(windowId)) : ids
+    }
+    next[workspaceId] = Array.from(new Set([...(next[workspaceId] || []), ...windowIds]))
+    await chrome.storage.session.set({ [STORAGE_KEYS.WORKSPACE_WINDOWS]: next })
+  },
+
+  async removeWorkspaceWindowId(windowId: number): Promise<void> {
+    const current = await this.getWorkspaceWindowIds()
+    if (!Object.values(current).some(ids => ids.includes(windowId))) return
+    const next = Object.fromEntries(
+      Object.entries(current).map(([id, ids]) => [id, ids.filter(w => w !== windowId)])
+    )
+    await chrome.storage.session.set({ [STORAGE_KEYS.WORKSPACE_WINDOWS]: next })
+  },
+
+  async getGroupMatchPrompts(): Promise<GroupMatchPrompt[]> {
+    const result = await chrome.storage.session.get(STORAGE_KEYS.GROUP_MATCH_PROMPTS)
+    return result[STORAGE_KEYS.GROUP_MATCH_PROMPTS] || []
+  },
+
+  async setGroupMatchPrompts(prompts: GroupMatchPrompt[]): Promise<void> {
+    await chrome.storage.session.set({ [STORAGE_KEYS.GROUP_MATCH_PROMPTS]: prompts })
+  },
+
+  async getDeclinedGroupMatches(): Promise<DeclinedGroupMatches> {
+    const result = await chrome.storage.session.get(STORAGE_KEYS.DECLINED_GROUP_MATCHES)
+    return result[STORAGE_KEYS.DECLINED_GROUP_MATCHES] || {}
+  },
+
+  async declineGroupMatches(workspaceId: string, groupIds: number[]): Promise<void> {
+    const declined = await this.getDeclinedGroupMatches()
+    const ids = new Set([...(declined[workspaceId] || []), ...groupIds])
+    await chrome.storage.session.set({
+      [STORAGE_KEYS.DECLINED_GROUP_MATCHES]: { ...declined, [workspaceId]: [...ids] }
+    })
+  },
+
+  async getDomainTime(): Promise<DomainTime> {
+    const result = await chrome.storage.local.get(STORAGE_KEYS.DOMAIN_TIME)
+    return result[STORAGE_KEYS.DOMAIN_TIME] || {}
+  },
+
+  // Add attention time to today's per-domain totals, dropping days past the retention window
+  async addDomainTime(entries: DomainTime): Promise<void> {
+    if (Object.keys(entries).length === 0) return
+    const domainTime = await this.getDomainTime()
+    const updated = { ...domainTime }
+    for (const [day, domains] of Object.entries(entries)) {
+      const totals = { ...updated[day] }
+      for (const [domain, ms] of Object.entries(domains)) {
+        totals[domain] = (totals[domain] || 0) + ms
+      }
+      updated[day] = totals
+    }
+
+    const oldest = formatDayKey(Date.now() - DOMAIN_TIME_DAYS * 24 * 60 * 60 * 1000)
+    const kept = Object.fromEntries(Object.entries(updated).filter(([day]) => day > oldest))
+    await chrome.storage.local.set({ [STORAGE_KEYS.DOMAIN_TIME]: kept })
+  },
+
+  async getGroupColors(): Promise<GroupColors> {
+    const result = await chrome.storage.local.get(STORAGE_KEYS.GROUP_COLORS)
+    return result[STORAGE_KEYS.GROUP_COLORS] || {}
+  },
+
+  async setGroupColor(groupName: string, color: chrome.tabGroups.ColorEnum): Promise<void> {
+    // Untitled groups have nothing to remember the color by
+    if (!groupName) return
+    const colors = await this.getGroupColors()
+    if (colors[groupName] === color) return
+    await chrome.storage.local.set({ [STORAGE_KEYS.GROUP_COLORS]: { ...colors, [groupName]: color } })
+  },
+}
+
+// Rules saved before nested condition groups stored a flat list of conditions
+// plus an AND/OR operator. Wrap those in a single group; the migrated shape is
+// written back the next time the rule is saved.
+function normalizeTabRule(rule: TabRule & { conditionOperator?: 'AND' | 'OR' }): TabRule {
+  if (!Array.isArray(rule.conditions)) return rule
+
+  const { conditionOperator, ...rest } = rule
+  return {
+    ...rest,
+    conditions: {
+      type: 'group',
+      operator: conditionOperator || 'AND',
+      children: rule.conditions as RuleCondition[]
+    }
+  }
+}
+
+// Workspaces saved before multi-window support held a single group's tabs at
+// the top level (stashes held a window's). Move them into one window; the new
+// shape is written back the next time the workspace is saved.
+function normalizeWorkspace(workspace: Workspace & { groups?: TabGroup[]; tabs?: TabInfo[] }): Workspace {
+  if (Array.isArray(workspace.windows)) return workspace
+
+  const { groups, tabs, ...rest } = workspace
+  return {
+    ...rest,
+    kind: workspace.stashed ? 'windows' : 'group',
+    windows: [{ tabs: tabs || [], groups: groups || [] }]
+  }
+}
+
+// Snapshots keep only what history shows and restores: chrome.storage.local
+// is limited to 10MB and every changing save adds one
+function compactWindow(window: WorkspaceWindow): SnapshotWindow {
+  return {
+    tabs: window.tabs.map(({ id, url, title, pinned, favIconUrl }) => ({ id, url, title, pinned, favIconUrl })),
+    groups: window.groups,
+    bounds: window.bounds
+  }
+}
+
+// Whether two versions hold the same pages, ignoring order
+function sameTabs(a: WorkspaceWindow[], b: WorkspaceWindow[]): boolean {
+  const urls = (windows: WorkspaceWindow[]) => windows.flatMap(w => w.tabs.map(t => t.url || '')).sort().join('\n')
+  return urls(a) === urls(b)
 }
 
 function getDefaultSettings(): Settings {
@@ -130,5 +478,15 @@ function getDefaultSettings(): Settings {
     autoCollapseGroups: false,
     autoCollapseDelay: 5,
     copyUrlShortcutEnabled: true,
+    duplicateIgnoreHash: false,
+    duplicateStripTrackingParams: false,
+    duplicateIgnoreTrailingSlash: false,
+    duplicateIgnoreProtocol: false,
+    duplicateKeepPolicy: 'newest',
+    duplicateMode: 'close_others',
+    duplicateAllowedDomains: [],
+    workspaceSwitchMode: 'stash',
+    lazyRestore: true,
+    lazyRestoreEagerTabs: 3,
   }
 }
\ No newline at end of file
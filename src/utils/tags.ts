@@ -0,0 +1,24 @@
+import type { TabInfo, TabTags } from '@/types'
+
+// Copy tabs for saving in a workspace, carrying their user tags along
+export function withTags(tabs: chrome.tabs.Tab[], tabTags: TabTags): TabInfo[] {
+  return tabs.map(tab => {
+    const tags = tab.id !== undefined ? tabTags[tab.id]?.tags : undefined
+    return tags?.length ? { ...tab, tags } : { ...tab }
+  })
+}
+
+// Build tag entries for freshly created tabs from the tabs they were restored from
+export function tagsForRestoredTabs(pairs: Array<{ source: TabInfo; tab: chrome.tabs.Tab }>): TabTags {
+  const entries: TabTags = {}
+  for (const { source, tab } of pairs) {
+    if (tab.id !== undefined && source.tags?.length) {
+      entries[tab.id] = { url: source.url || tab.pendingUrl || tab.url || '', tags: source.tags }
+    }
+  }
+  return entries
+}
+
+export function matchesTags(tags: string[] | undefined, query: string): boolean {
+  return !!tags?.some(tag => tag.toLowerCase().includes(query))
+}
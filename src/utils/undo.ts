@@ -0,0 +1,35 @@
+import type { RemovedTab } from '@/types'
+
+// The entries of the most recent removal batch in the undo journal
+export function latestUndoBatch(journal: RemovedTab[]): RemovedTab[] {
+  const batchId = journal[0]?.batchId
+  return batchId ? journal.filter(entry => entry.batchId === batchId) : []
+}
+
+// Summarize a removal batch, e.g. 'Closed 3 duplicate tabs'
+export function describeRemovals(entries: RemovedTab[]): string {
+  const count = entries.length
+  const tabs = count === 1 ? 'tab' : 'tabs'
+  const archived = entries.filter(e => e.archivedAt).length
+  const verb = archived === count ? 'Archived' : archived > 0 ? 'Removed' : 'Closed'
+
+  switch (entries[0]?.reason) {
+    case 'duplicate':
+      return `${verb} ${count} duplicate ${tabs}`
+    case 'auto_archive':
+      return `${verb} ${count} inactive ${tabs}`
+    case 'tab_limit':
+      return `${verb} ${count} ${tabs} over the tab limit`
+    case 'scheduled_close':
+      return `${verb} ${count} ${tabs} on schedule`
+    case 'rule': {
+      const ruleNames = new Set(entries.map(e => e.ruleName))
+      const ruleName = entries[0].ruleName
+      return ruleNames.size === 1 && ruleName
+        ? `${verb} ${count} ${tabs} by rule "${ruleName}"`
+        : `${verb} ${count} ${tabs} by rules`
+    }
+    default:
+      return `${verb} ${count} ${tabs}`
+  }
+}
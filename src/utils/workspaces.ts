@@ -0,0 +1,431 @@
+import { storage } from './storage'
+import { tagsForRestoredTabs, withTags } from './tags'
+import type { DeclinedGroupMatches, GroupMatchPrompt, Settings, SnapshotTab, SnapshotWindow, TabGroup, TabInfo, TabTags, WindowBounds, Workspace, WorkspaceSwitchMode, WorkspaceWindow } from '@/types'
+
+// Capturing windows into workspaces and restoring them, shared by the popup
+// and the background worker
+
+// How long to wait for a restored tab to commit its URL before discarding it
+const DISCARD_WAIT_MS = 5000
+// Share of pages an open group needs in common with a saved group to be it
+const MIN_URL_OVERLAP = 0.5
+// Tabs a lazy restore loads up front, matching the default settings
+const DEFAULT_EAGER_TABS = 3
+const MAX_EAGER_TABS = 50
+
+export interface RestoreOptions {
+  lazy: boolean
+  eagerTabs: number
+}
+
+// A cleared or mistyped options field reads as NaN; fall back to the default
+export function clampEagerTabs(value: number): number {
+  if (!Number.isFinite(value)) return DEFAULT_EAGER_TABS
+  return Math.min(MAX_EAGER_TABS, Math.max(0, Math.floor(value)))
+}
+
+export function restoreOptionsFromSettings(settings: Settings): RestoreOptions {
+  return { lazy: settings.lazyRestore, eagerTabs: clampEagerTabs(settings.lazyRestoreEagerTabs) }
+}
+
+export function workspaceTabs(workspace: Workspace): TabInfo[] {
+  return workspace.windows.flatMap(w => w.tabs)
+}
+
+export function workspaceGroups(workspace: Workspace): TabGroup[] {
+  return workspace.windows.flatMap(w => w.groups)
+}
+
+// Saved groups are linked to open Chrome groups by id (g_<groupId>)
+export function savedGroupId(groupId: number): string {
+  return `g_${groupId}`
+}
+
+export function chromeGroupIdOf(group: TabGroup): number {
+  return parseInt(group.id.replace('g_', ''))
+}
+
+export function findGroupInWorkspace(workspace: Workspace, groupId: number): TabGroup | undefined {
+  return workspaceGroups(workspace).find(g => g.id === savedGroupId(groupId))
+}
+
+// The first saved group, which is the only one for a saved group workspace
+export function primaryGroup(workspace: Workspace): TabGroup | undefined {
+  return workspaceGroups(workspace)[0]
+}
+
+export interface WorkspaceDiff {
+  added: SnapshotTab[]
+  removed: SnapshotTab[]
+}
+
+// Pages a newer version of a workspace has that an older one doesn't, and
+// the other way round
+export function diffWorkspaceTabs(older: SnapshotWindow[], newer: SnapshotWindow[]): WorkspaceDiff {
+  const olderTabs = older.flatMap(w => w.tabs)
+  const newerTabs = newer.flatMap(w => w.tabs)
+  const olderUrls = new Set(olderTabs.map(t => t.url))
+  const newerUrls = new Set(newerTabs.map(t => t.url))
+  return {
+    added: newerTabs.filter(t => !olderUrls.has(t.url)),
+    removed: olderTabs.filter(t => !newerUrls.has(t.url))
+  }
+}
+
+// A saved group that isn't linked to an open group gets a negative
+// placeholder id, which no Chrome group has, unique to its workspace so
+// closed saved groups can still be told apart
+export function unlinkedGroupId(workspace: Workspace): string {
+  return savedGroupId(-workspace.createdAt)
+}
+
+export function isLinkedGroup(group: TabGroup): boolean {
+  return chromeGroupIdOf(group) >= 0
+}
+
+export function unlinkSavedGroup(workspace: Workspace): Workspace {
+  const placeholder = unlinkedGroupId(workspace)
+  return {
+    ...workspace,
+    windows: workspace.windows.map(w => ({ ...w, groups: w.groups.map(g => ({ ...g, id: placeholder })) }))
+  }
+}
+
+export interface OpenGroup {
+  group: chrome.tabGroups.TabGroup
+  tabs: chrome.tabs.Tab[]
+}
+
+// How much an open group looks like a saved one: the share of pages they
+// have in common, plus a little for the same title and color. Groups with
+// too few pages in common aren't the same group, whatever they're called.
+export function groupFingerprintScore(workspace: Workspace, open: OpenGroup): number {
+  const saved = primaryGroup(workspace)
+  if (!saved) return 0
+
+  const savedUrls = new Set(workspaceTabs(workspace).map(t => t.url).filter(Boolean))
+  const openUrls = new Set(open.tabs.map(t => t.url || t.pendingUrl).filter(Boolean))
+  const shared = [...openUrls].filter(url => savedUrls.has(url)).length
+  const overlap = shared / Math.max(savedUrls.size, openUrls.size, 1)
+  if (overlap < MIN_URL_OVERLAP) return 0
+
+  return overlap
+    + ((open.group.title || 'Untitled Group') === saved.name ? 0.5 : 0)
+    + (open.group.color === saved.color ? 0.25 : 0)
+}
+
+// Pair saved groups with the open groups they look like. A pair is only made
+// when neither side has an equally good alternative; a saved group tied
+// between open groups, or with another saved group, becomes a prompt.
+export function matchSavedGroups(
+  workspaces: Workspace[],
+  openGroups: OpenGroup[],
+  declined: DeclinedGroupMatches = {}
+): {
+  links: Array<{ workspace: Workspace; open: OpenGroup }>
+  prompts: GroupMatchPrompt[]
+} {
+  // Groups the user already said a saved group isn't never match it again
+  const scores = workspaces.map(workspace => openGroups.map(open =>
+    declined[workspace.id]?.includes(open.group.id) ? 0 : groupFingerprintScore(workspace, open)
+  ))
+  const links: Array<{ workspace: Workspace; open: OpenGroup }> = []
+  const prompts: GroupMatchPrompt[] = []
+
+  workspaces.forEach((workspace, w) => {
+    const best = Math.max(0, ...scores[w])
+    if (best === 0) return
+
+    const candidates = openGroups.filter((_, g) => scores[w][g] === best)
+    const rivalBest = Math.max(0, ...candidates.flatMap(open => {
+      const g = openGroups.indexOf(open)
+      return scores.filter((_, other) => other !== w).map(row => row[g])
+    }))
+    // Another saved group is clearly the better fit
+    if (candidates.length === 1 && rivalBest > best) return
+
+    if (candidates.length === 1 && rivalBest < best) {
+      links.push({ workspace, open: candidates[0] })
+    } else {
+      prompts.push({
+        workspaceId: workspace.id,
+        candidates: candidates.map(({ group, tabs }) => ({
+          groupId: group.id,
+          title: group.title || 'Untitled Group',
+          color: group.color,
+          tabCount: tabs.length
+        }))
+      })
+    }
+  })
+
+  return { links, prompts }
+}
+
+// Saved groups follow their open group as it changes; window workspaces are
+// snapshots and are left alone
+export function savedGroupWorkspaces(workspaces: Workspace[]): Workspace[] {
+  return workspaces.filter(w => w.kind === 'group')
+}
+
+// Capture a whole window: every tab in order, its groups and its bounds
+export async function captureWindow(windowId: number, tabTags: TabTags): Promise<WorkspaceWindow> {
+  const [chromeWindow, groups] = await Promise.all([
+    chrome.windows.get(windowId, { populate: true }),
+    chrome.tabGroups.query({ windowId })
+  ])
+  const tabs = [...(chromeWindow.tabs || [])].sort((a, b) => a.index - b.index)
+  const now = Date.now()
+
+  return {
+    tabs: withTags(tabs, tabTags),
+    groups: groups.map(group => toSavedGroup(group, tabs, now)).filter(g => g.tabs.length > 0),
+    bounds: {
+      left: chromeWindow.left,
+      top: chromeWindow.top,
+      width: chromeWindow.width,
+      height: chromeWindow.height,
+      state: chromeWindow.state
+    }
+  }
+}
+
+// Capture a single open group as a window holding only that group
+export async function captureGroup(group: chrome.tabGroups.TabGroup, tabTags: TabTags): Promise<WorkspaceWindow> {
+  const tabs = (await chrome.tabs.query({ groupId: group.id })).sort((a, b) => a.index - b.index)
+  return {
+    tabs: withTags(tabs, tabTags),
+    groups: [toSavedGroup(group, tabs, Date.now())]
+  }
+}
+
+// Replace a saved group's tabs and details with the open group's current
+// state, leaving the workspace's other groups and tabs where they are
+export function updateSavedGroup(
+  workspace: Workspace,
+  savedId: string,
+  group: chrome.tabGroups.TabGroup,
+  tabs: chrome.tabs.Tab[],
+  tabTags: TabTags
+): Workspace {
+  const now = Date.now()
+  const windows = workspace.windows.map(savedWindow => {
+    const saved = savedWindow.groups.find(g => g.id === savedId)
+    if (!saved) return savedWindow
+
+    const oldTabIds = new Set(saved.tabs)
+    const insertAt = Math.max(0, savedWindow.tabs.findIndex(t => t.id !== undefined && oldTabIds.has(t.id)))
+    const otherTabs = savedWindow.tabs.filter(t => t.id === undefined || !oldTabIds.has(t.id))
+    const groupTabs = keepSavedTitles(
+      withTags([...tabs].sort((a, b) => a.index - b.index), tabTags),
+      savedWindow.tabs
+    )
+
+    return {
+      ...savedWindow,
+      tabs: [...otherTabs.slice(0, insertAt), ...groupTabs, ...otherTabs.slice(insertAt)],
+      groups: savedWindow.groups.map(g => g.id === savedId
+        ? {
+            ...g,
+            id: savedGroupId(group.id),
+            name: group.title || 'Untitled Group',
+            color: group.color,
+            collapsed: group.collapsed,
+            tabs: groupTabs.map(t => t.id!),
+            updatedAt: now
+          }
+        : g
+      )
+    }
+  })
+
+  return { ...workspace, windows, updatedAt: now }
+}
+
+// Recreate a workspace's windows with their tabs, tab order, pinned state,
+// groups and bounds. The first window's tabs go into `intoWindowId` when it
+// is given instead of into a new window. Returns the ids of the windows used.
+//
+// New windows are only focused once everything is in place: focusing one
+// closes the popup, so nothing left to do may depend on it.
+export async function openWorkspace(workspace: Workspace, intoWindowId?: number): Promise<number[]> {
+  const options = restoreOptionsFromSettings(await storage.getSettings())
+  const restored: Array<{ source: TabInfo; tab: chrome.tabs.Tab }> = []
+  const windowIds: number[] = []
+
+  for (const [index, saved] of workspace.windows.entries()) {
+    let windowId = intoWindowId
+    let createdWindow: chrome.windows.Window | null = null
+    if (index > 0 || windowId === undefined) {
+      createdWindow = await chrome.windows.create({ focused: false, ...windowCreateBounds(saved.bounds) })
+      windowId = createdWindow.id!
+    }
+    windowIds.push(windowId!)
+
+    // The eager-load cap covers the whole workspace, not each window
+    const sources = saved.tabs.filter(t => t.url)
+    const newTabs = await createRestoredTabs(
+      sources.map(tab => ({ windowId, url: tab.url, pinned: tab.pinned })),
+      { ...options, eagerTabs: Math.max(0, options.eagerTabs - restored.length) }
+    )
+
+    const tabIdMap = new Map<number, number>()
+    sources.forEach((tab, i) => {
+      const newTab = newTabs[i]
+      if (tab.id !== undefined && newTab.id) tabIdMap.set(tab.id, newTab.id)
+      restored.push({ source: tab, tab: newTab })
+    })
+
+    for (const group of saved.groups) {
+      const tabIds = group.tabs
+        .map(oldId => tabIdMap.get(oldId))
+        .filter(Boolean) as number[]
+      if (tabIds.length === 0) continue
+
+      const groupId = await chrome.tabs.group({ tabIds, createProperties: { windowId } })
+      await chrome.tabGroups.update(groupId, {
+        title: group.name,
+        color: group.color,
+        collapsed: group.collapsed
+      })
+    }
+
+    if (createdWindow) {
+      // Drop the new tab page a created window starts with, unless it's all there is
+      const blankTabIds = (createdWindow.tabs || []).map(t => t.id!)
+      if (blankTabIds.length > 0 && tabIdMap.size > 0) await chrome.tabs.remove(blankTabIds)
+      const state = saved.bounds?.state
+      if (state === 'maximized' || state === 'minimized' || state === 'fullscreen') {
+        await chrome.windows.update(windowId!, { state })
+      }
+    }
+  }
+
+  await storage.mergeTabTags(tagsForRestoredTabs(restored))
+  if (intoWindowId === undefined && windowIds.length > 0 && workspace.windows[0].bounds?.state !== 'minimized') {
+    await chrome.windows.update(windowIds[0], { focused: true })
+  }
+  return windowIds
+}
+
+// Switching never throws tabs away: depending on the switch mode the
+// workspace opens in a new window, the window's current tabs are stashed as a
+// workspace first, or the workspace is added next to them
+export async function switchWorkspace(workspace: Workspace, windowId: number, mode: WorkspaceSwitchMode): Promise<void> {
+  let windowIds: number[]
+  if (mode === 'new_window') {
+    windowIds = await openWorkspace(workspace)
+  } else {
+    const currentTabs = await chrome.tabs.query({ windowId })
+
+    if (mode === 'stash') {
+      const stash = await captureStash(windowId, `Stash - ${new Date().toLocaleString()}`)
+      if (workspaceTabs(stash).length > 0) await storage.saveStash(stash)
+    }
+
+    // Open the workspace before closing anything so the window stays open.
+    // Its first window goes into this one; any others open alongside.
+    windowIds = await openWorkspace(workspace, windowId)
+    if (mode === 'stash') {
+      const tabIds = currentTabs.map(t => t.id).filter(Boolean) as number[]
+      if (tabIds.length > 0) await chrome.tabs.remove(tabIds)
+    }
+  }
+
+  // A merged window shows its earlier workspace too
+  await storage.addWorkspaceWindowIds(workspace.id, windowIds, mode !== 'merge')
+  await storage.setActiveWorkspace(workspace.id)
+}
+
+// Save a window's tabs as a stash. Blank new tab pages aren't worth keeping.
+async function captureStash(windowId: number, name: string): Promise<Workspace> {
+  const captured = await captureWindow(windowId, await storage.getTabTags())
+  const now = Date.now()
+
+  return {
+    id: `ws_${now}`,
+    name,
+    kind: 'windows',
+    windows: [{
+      ...captured,
+      tabs: captured.tabs.filter(t => t.url && t.url !== 'chrome://newtab/' && t.url !== 'about:blank')
+    }],
+    createdAt: now,
+    updatedAt: now
+  }
+}
+
+// Create tabs in order for a restore. With lazy restore only the first
+// `eagerTabs` load now; the rest are discarded as soon as their URL commits
+// and load when they're activated.
+export async function createRestoredTabs(
+  tabs: chrome.tabs.CreateProperties[],
+  options: RestoreOptions
+): Promise<chrome.tabs.Tab[]> {
+  const created: chrome.tabs.Tab[] = []
+  for (const properties of tabs) {
+    created.push(await chrome.tabs.create({ ...properties, active: false }))
+  }
+  if (!options.lazy) return created
+
+  return Promise.all(created.map((tab, index) => index < options.eagerTabs ? tab : discardWhenCommitted(tab)))
+}
+
+// A tab that was never loaded has no title of its own, so carry the saved
+// title and icon over from the saved copy of the same page
+export function keepSavedTitles(tabs: TabInfo[], saved: TabInfo[]): TabInfo[] {
+  const byUrl = new Map(saved.filter(t => t.url).map(t => [t.url, t]))
+  return tabs.map(tab => {
+    const previous = byUrl.get(tab.url)
+    if (!tab.discarded || !previous || (tab.title && tab.title !== tab.url)) return tab
+    return { ...tab, title: previous.title, favIconUrl: tab.favIconUrl || previous.favIconUrl }
+  })
+}
+
+// Chrome can only discard a tab once it knows its URL. Discarding may hand
+// back a tab with a new id, so callers use the returned tab.
+async function discardWhenCommitted(tab: chrome.tabs.Tab): Promise<chrome.tabs.Tab> {
+  const tabId = tab.id
+  if (tabId === undefined) return tab
+
+  await new Promise<void>((resolve) => {
+    const timer = setTimeout(done, DISCARD_WAIT_MS)
+    function done() {
+      clearTimeout(timer)
+      chrome.tabs.onUpdated.removeListener(listener)
+      resolve()
+    }
+    function listener(updatedId: number, changeInfo: chrome.tabs.TabChangeInfo) {
+      if (updatedId === tabId && changeInfo.url) done()
+    }
+    chrome.tabs.onUpdated.addListener(listener)
+    chrome.tabs.get(tabId).then(current => { if (current.url) done() }).catch(done)
+  })
+
+  try {
+    return (await chrome.tabs.discard(tabId)) || tab
+  } catch {
+    // Active tabs and tabs that closed meanwhile can't be discarded
+    return tab
+  }
+}
+
+function toSavedGroup(group: chrome.tabGroups.TabGroup, tabs: chrome.tabs.Tab[], now: number): TabGroup {
+  return {
+    id: savedGroupId(group.id),
+    name: group.title || 'Untitled Group',
+    color: group.color,
+    collapsed: group.collapsed,
+    tabs: tabs.filter(t => t.groupId === group.id).map(t => t.id!),
+    createdAt: now,
+    updatedAt: now
+  }
+}
+
+// Chrome won't combine a position or size with a maximized, minimized or
+// fullscreen state, so those windows are created normally and updated after
+function windowCreateBounds(bounds?: WindowBounds): chrome.windows.CreateData {
+  if (!bounds || (bounds.state && bounds.state !== 'normal')) return {}
+  const { left, top, width, height } = bounds
+  return { left, top, width, height }
+}